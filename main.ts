@@ -1,494 +1,4016 @@
-import { App, PluginSettingTab, Setting, Plugin, Notice, Modal } from 'obsidian';
+import { App, PluginSettingTab, Setting, Plugin, Notice, Modal, WorkspaceLeaf, ItemView, MarkdownRenderer, TFile, ViewStateResult, FuzzySuggestModal, setIcon } from 'obsidian';
+import socialPreset from './data/presets/social.json';
+import videoPreset from './data/presets/video.json';
+import newsPreset from './data/presets/news.json';
+import shoppingPreset from './data/presets/shopping.json';
+import gamesPreset from './data/presets/games.json';
+
+// A recurring nuclear mode window
+interface NuclearScheduleEntry {
+    days: number;  // Weekdays the window starts on, as a bitmask (bit 0 = Sunday)
+    start: string; // 24-hour format: "HH:MM"
+    end: string;   // 24-hour format: "HH:MM", earlier than start to run past midnight
+}
+
+// A single occurrence of a schedule entry
+export interface NuclearWindow {
+    start: Date;
+    end: Date;
+}
+
+// Weekday bitmasks
+const ALL_DAYS = 0b1111111;
+const WEEKDAYS = 0b0111110;
+const WEEKENDS = 0b1000001;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Formats the blocklist importer understands
+type ImportFormat = 'hosts' | 'adblock' | 'domains';
+
+// Result of converting an imported list into blocklist entries
+interface ImportResult {
+    format: ImportFormat;
+    entries: string[];    // Converted entries, without duplicates
+    duplicates: number;   // Entries dropped because they appeared more than once
+    skipped: number;      // Lines that could not be converted (cosmetic filters, unsupported syntax)
+}
+
+// File extensions offered by the blocklist importer ('' covers files such as "hosts")
+const IMPORT_FILE_EXTENSIONS = ['txt', 'md', 'hosts', 'list', 'conf', ''];
+
+// Filter options that still apply to the whole page. Anything else (resource types, third-party,
+// elemhide and other cosmetic-only exceptions) would widen the filter, so those lines are skipped
+const PAGE_FILTER_OPTIONS = ['document', 'doc', 'all', 'important', 'popup'];
+
+// Words used to build the passage for the typing challenge
+const TYPING_CHALLENGE_WORDS = [
+    'attention', 'river', 'patience', 'window', 'quietly', 'mountain', 'careful', 'lantern', 'morning', 'balance',
+    'notebook', 'gentle', 'harbor', 'distant', 'thunder', 'silver', 'orchard', 'steady', 'compass', 'meadow',
+    'whisper', 'ladder', 'granite', 'candle', 'journey', 'forest', 'shallow', 'breeze', 'anchor', 'velvet',
+    'pattern', 'clever', 'kettle', 'horizon', 'timber', 'marble', 'signal', 'pebble', 'glacier', 'bramble',
+    'copper', 'hollow', 'sparrow', 'tunnel', 'amber', 'orbit', 'canvas', 'feather', 'puzzle', 'quarry'
+];
+
+// Preset focus session lengths, in minutes
+const FOCUS_SESSION_PRESETS = [15, 25, 45, 60, 90, 120];
+
+// A daily allowance of time for pages matching a rule
+interface TimeBudget {
+    pattern: string; // Any blocklist rule, e.g. "||youtube.com"
+    minutes: number; // Minutes allowed per day
+}
+
+// Time spent on budgeted pages in the current budget period
+interface BudgetUsage {
+    period: string;               // Day the period started on ("YYYY-MM-DD")
+    used: Record<string, number>; // Milliseconds used, keyed by budget pattern
+}
+
+// A domain temporarily allowed from the block screen or notice
+interface SnoozePass {
+    domain: string;
+    until: number;  // Timestamp (ms) the pass expires
+}
+
+// Snooze passes used in a period; periods start at the budget reset time
+interface SnoozeUsage {
+    period: string;
+    used: number;
+}
+
+// The protected blocklist and window end saved while nuclear mode is active,
+// so that reloads and hand edits can't loosen it
+interface NuclearSnapshot {
+    entries: string[];  // Blocklist entries that may not be removed
+    presets?: string[]; // Category presets that may not be turned off
+    windowEnd: number;  // Timestamp (ms) the active window ends
+    lastSeen: number;   // Timestamp (ms) the plugin last confirmed it was running
+    timeZone?: string;  // System time zone when the snapshot was saved
+    checksum: string;
+}
+
+// A wall-clock time paired with the monotonic clock, which system clock changes don't affect
+interface ClockReading {
+    wall: number;       // Date.now()
+    monotonic: number;  // performance.now()
+    timeZone: string;
+}
+
+// Differences between the two clocks larger than this count as the system clock being changed
+const CLOCK_JUMP_TOLERANCE = 2 * 60000;
+
+// How long nuclear mode stays on when every saved copy of the snapshot was edited,
+// since none of them can say when the window really ends
+const TAMPERED_SNAPSHOT_LOCK = 24 * 60 * 60000;
+
+// A curated category blocklist shipped in data/presets, switched on as a unit
+interface BlocklistPreset {
+    id: string;
+    name: string;
+    description: string;
+    version: number;    // Raised whenever the entries change
+    entries: string[];
+}
+
+const BLOCKLIST_PRESETS: BlocklistPreset[] = [socialPreset, videoPreset, newsPreset, shoppingPreset, gamesPreset];
+
+// An entry in the audit log of attempts to get around nuclear mode
+interface AuditLogEntry {
+    timestamp: number;
+    type: string;
+    detail: string;
+}
+
+// What to do with a web viewer tab that navigates to a blocked URL
+type BlockAction = 'close' | 'back' | 'blockScreen';
+
+// Who started the running focus session: the user, or another plugin through the API
+type FocusSessionSource = 'user' | 'api';
+
+// How much of a loaded page title: and content: rules are checked against
+type PageInspection = 'off' | 'title' | 'text';
 
 // Define the plugin settings interface
 interface WebViewerUrlCheckerSettings {
     isEnabled: boolean;
+    blockAction: BlockAction;
+    blockScreenMessage: string; // Shown on the block screen, rendered as markdown
+    blockScreenNote: string;    // Vault path of a note to embed on the block screen
     blocklistContent: string;
+    blocklistNotePath: string;  // Vault note holding the blocklist, '' to use data/blocklist.txt
     nuclearModeEnabled: boolean;
-    nuclearStartTime: string; // 24-hour format: "HH:MM"
-    nuclearEndTime: string;   // 24-hour format: "HH:MM"
+    nuclearSchedule: NuclearScheduleEntry[];
     nuclearActive: boolean;   // Flag to track if nuclear mode is currently active
+    focusSessionEnd: number;  // Timestamp (ms) when the current focus session ends, 0 if none
+    focusSessionSource: FocusSessionSource;
+    logBlockEvents: boolean;
+    logRetentionDays: number; // Block log entries older than this are pruned, 0 to keep forever
+    timeBudgets: TimeBudget[];
+    budgetResetTime: string;  // 24-hour format: "HH:MM"
+    budgetUsage: BudgetUsage;
+    nuclearSnapshot: NuclearSnapshot | null; // Copy of data/nuclear-snapshot.json
+    frictionCountdownSeconds: number; // Wait before blocking can be turned off, 0 for none
+    frictionTypingWords: number;      // Length of the passage to type, 0 for none
+    frictionRequireReason: boolean;
+    pageInspection: PageInspection;
+    pageTextThreshold: number; // Keyword hits in the visible text needed to block a page
+    entryNotes: Record<string, string>; // Notes shown next to blocklist entries in the rule table
+    interceptExternalLinks: boolean; // Also check links opened from notes and in the system browser
+    enabledPresets: Record<string, number>; // Enabled category presets and the version last seen
+    snoozeMinutes: number;     // How long a snooze pass allows a domain
+    snoozeDailyLimit: number;  // Passes allowed per day, 0 to turn snoozing off
+    snoozePasses: SnoozePass[];
+    snoozeUsage: SnoozeUsage;
 }
 
 // Default settings
 const DEFAULT_SETTINGS: WebViewerUrlCheckerSettings = {
     isEnabled: true,
+    blockAction: 'blockScreen',
+    blockScreenMessage: "",
+    blockScreenNote: "",
     blocklistContent: "youtube\ntwitter\nfacebook\nreddit",
+    blocklistNotePath: "",
     nuclearModeEnabled: false,
-    nuclearStartTime: "22:00",
-    nuclearEndTime: "05:00",
-    nuclearActive: false
+    nuclearSchedule: [{ days: ALL_DAYS, start: "22:00", end: "05:00" }],
+    nuclearActive: false,
+    focusSessionEnd: 0,
+    focusSessionSource: 'user',
+    logBlockEvents: true,
+    logRetentionDays: 90,
+    timeBudgets: [],
+    budgetResetTime: "04:00",
+    budgetUsage: { period: "", used: {} },
+    nuclearSnapshot: null,
+    frictionCountdownSeconds: 0,
+    frictionTypingWords: 0,
+    frictionRequireReason: false,
+    pageInspection: 'off',
+    pageTextThreshold: 3,
+    entryNotes: {},
+    interceptExternalLinks: true,
+    enabledPresets: {},
+    snoozeMinutes: 5,
+    snoozeDailyLimit: 3,
+    snoozePasses: [],
+    snoozeUsage: { period: "", used: 0 }
 }
 
-export default class WebViewerUrlChecker extends Plugin {
-    settings: WebViewerUrlCheckerSettings;
-    private intervalId: number = 0;
-    private nuclearTimerId: number = 0;
-    private addressValues: Map<string, string> = new Map();
-    private stringsToCheck: string[] = [];
-    private blocklistFilePath = 'blocklist.txt';
-    private originalBlocklist: string = "";
+// View type of the built-in Web Viewer
+const WEBVIEWER_VIEW_TYPE = 'webviewer';
 
-    async onload() {
-        // Load settings
-        await this.loadSettings();
-        
-        // Create data folder if it doesn't exist
-        await this.ensureDataFolder();
-        
-        // Load blocklist
-        await this.loadBlocklist();
-        
-        // Add settings tab
-        this.addSettingTab(new WebViewerUrlCheckerSettingTab(this.app, this));
-        
-        // Start monitoring if enabled
-        if (this.settings.isEnabled) {
-            this.startMonitoring();
+// View type of the block screen shown in place of blocked pages
+const BLOCKED_VIEW_TYPE = 'web-blocker-blocked';
+
+// View type of the blocking statistics dashboard
+const STATS_VIEW_TYPE = 'web-blocker-stats';
+
+// A single recorded block, stored as one JSON object per line in data/block-log.jsonl
+interface BlockLogEntry {
+    timestamp: number;
+    url: string;
+    rule: string;
+    nuclear: boolean; // Whether nuclear mode was active at the time
+    action: string;   // The block action that was taken
+}
+
+// Aggregated statistics shown on the dashboard
+interface BlockLogSummary {
+    total: number;
+    perDay: { day: string; count: number }[]; // The last 14 days, oldest first
+    topRules: [string, number][];
+    topDomains: [string, number][];
+    insideNuclear: number;
+    outsideNuclear: number;
+    currentStreak: number; // Days in a row, up to today, without a block
+    longestStreak: number;
+}
+
+// State stored with a block screen leaf
+interface BlockedViewState {
+    url: string;
+    rule: string;
+    previousUrl: string;
+}
+
+// Nuclear mode status as reported to other plugins
+export interface NuclearStatus {
+    active: boolean;
+    endTime: number | null;         // When the current window or session ends, if active
+    focusSessionEnd: number | null; // When the running focus session ends, if any
+    nextWindow: NuclearWindow | null;
+}
+
+// API exposed to other plugins as app.plugins.plugins['obsidian-web-blocker'].api
+export interface WebBlockerApi {
+    // The rule that would block a URL right now, or null if it would be allowed
+    isBlocked(url: string): BlockRule | null;
+    // Enforce nuclear mode for the given number of minutes, extending any running session
+    startEnforcement(minutes: number): Promise<boolean>;
+    // End a focus session started through the API; false if the user started it
+    stopEnforcement(): Promise<boolean>;
+    // Add blocklist entries, returning how many were added (nuclear mode drops new exceptions)
+    addEntries(entries: string[]): Promise<number>;
+    getNuclearStatus(): NuclearStatus;
+}
+
+// Events triggered on app.workspace, with the data passed to listeners
+export const BLOCKED_EVENT = 'web-blocker:blocked';             // (url: string, rule: BlockRule)
+export const NUCLEAR_START_EVENT = 'web-blocker:nuclear-start'; // (endTime: number | null)
+export const NUCLEAR_END_EVENT = 'web-blocker:nuclear-end';     // ()
+
+// Containers of rendered note content, in reading view, live preview and embeds
+const NOTE_CONTENT_SELECTOR = '.markdown-preview-view, .markdown-source-view, .markdown-rendered, .markdown-embed';
+
+// Embedded pages that are checked against the blocklist
+const EMBED_SELECTOR = 'iframe[src], embed[src], object[data], webview[src]';
+
+// The parts of Electron's <webview> tag used by the plugin
+interface WebviewElement extends HTMLElement {
+    canGoBack(): boolean;
+    goBack(): void;
+    loadURL(url: string): Promise<void>;
+    getURL(): string;
+    getTitle(): string;
+    executeJavaScript(code: string): Promise<unknown>;
+}
+
+// The part of Electron's shell module that hands links to the system browser
+interface ElectronShell {
+    openExternal(url: string, ...options: unknown[]): Promise<void>;
+}
+
+// Desktop builds of Obsidian expose Node's require on the window; mobile builds don't
+type WindowWithRequire = Window & { require?: (module: string) => { shell?: ElectronShell } };
+
+// Kinds of rules that can appear in the blocklist
+export type BlockRuleType = 'keyword' | 'query' | 'domain' | 'path' | 'wildcard' | 'regex' | 'title' | 'content';
+
+// A single parsed blocklist entry
+export interface BlockRule {
+    raw: string;          // The entry exactly as written in the blocklist
+    type: BlockRuleType;
+    pattern: string;      // Keyword, domain or path prefix depending on type
+    domain?: string;      // Anchor domain for domain and path rules
+    regex?: RegExp;       // Compiled pattern for wildcard and regex rules
+    wholeWord?: boolean;  // Keyword and query rules that only match whole words
+    exception: boolean;   // True for @@ rules that allow matching URLs
+}
+
+// The parts of a URL that rules are matched against
+interface UrlMatchContext {
+    url: string;          // Full URL, decoded and normalized
+    host: string;         // Hostname without port, lowercased
+    hostname: string;     // Hostname before equivalent subdomains are removed
+    path: string;         // Path plus query string, lowercased
+    queries: UrlText[];   // Normalized search query text
+    params: UrlText[];    // Normalized values of all query and fragment parameters
+    searchEngine?: string; // Name of the known search engine the query came from
+}
+
+// A piece of text taken from a URL, with where it was found
+interface UrlText {
+    source: string;       // e.g. 'parameter "q"', 'fragment "q"' or 'path'
+    text: string;
+}
+
+// A rule that matched a URL and the part of the URL it matched
+interface RuleMatch {
+    rule: BlockRule;
+    location: string;
+}
+
+// How one URL checked against the blocklist: the URL itself, or a destination it wraps
+interface UrlCheckStep {
+    url: string;
+    context: UrlMatchContext | null; // null if the URL couldn't be parsed
+    matches: RuleMatch[];            // Blocking rules, in blocklist order
+    exceptions: RuleMatch[];
+}
+
+// Everything the blocker decided about a URL, for the diagnostics panel
+interface UrlDiagnosis {
+    url: string;
+    enabled: boolean;
+    steps: UrlCheckStep[];
+    budgets: { budget: TimeBudget, remaining: number }[];
+    rule: BlockRule | null;          // The rule or used-up budget that blocks the URL
+    decision: string;
+}
+
+// Where a site puts its search query: query parameters, fragment parameters
+// or a path segment (the first capture group of a path pattern)
+interface SearchEngine {
+    name: string;
+    host: RegExp;
+    params: string[];
+    fragmentParams?: string[];
+    pathPatterns?: RegExp[];
+}
+
+const SEARCH_ENGINES: SearchEngine[] = [
+    { name: 'Google', host: /(^|\.)google\.[a-z.]+$/, params: ['q', 'as_q', 'as_epq'], fragmentParams: ['q'] },
+    { name: 'Bing', host: /(^|\.)bing\.com$/, params: ['q'] },
+    { name: 'DuckDuckGo', host: /(^|\.)duckduckgo\.com$/, params: ['q'] },
+    { name: 'Yahoo', host: /(^|\.)search\.yahoo\.com$/, params: ['p'] },
+    { name: 'Yandex', host: /(^|\.)yandex\.[a-z.]+$/, params: ['text'] },
+    { name: 'Baidu', host: /(^|\.)baidu\.com$/, params: ['wd', 'word'] },
+    { name: 'Ecosia', host: /(^|\.)ecosia\.org$/, params: ['q'] },
+    { name: 'Brave Search', host: /^search\.brave\.com$/, params: ['q'] },
+    { name: 'Startpage', host: /(^|\.)startpage\.com$/, params: ['query', 'q'] },
+    { name: 'Kagi', host: /(^|\.)kagi\.com$/, params: ['q'] },
+    { name: 'Qwant', host: /(^|\.)qwant\.com$/, params: ['q'] },
+    { name: 'YouTube', host: /(^|\.)youtube\.com$/, params: ['search_query'], pathPatterns: [/^\/hashtag\/([^/]+)/i] },
+    { name: 'Reddit', host: /(^|\.)reddit\.com$/, params: ['q'] },
+    { name: 'Wikipedia', host: /(^|\.)wikipedia\.org$/, params: ['search'], pathPatterns: [/^\/wiki\/special:search\/([^/]+)/i] },
+    { name: 'Amazon', host: /(^|\.)amazon\.[a-z.]+$/, params: ['k', 'field-keywords'] },
+    { name: 'eBay', host: /(^|\.)ebay\.[a-z.]+$/, params: ['_nkw'] },
+    { name: 'X', host: /(^|\.)(twitter|x)\.com$/, params: ['q'], pathPatterns: [/^\/hashtag\/([^/]+)/i] },
+    { name: 'TikTok', host: /(^|\.)tiktok\.com$/, params: ['q'], pathPatterns: [/^\/tag\/([^/]+)/i] },
+    { name: 'Instagram', host: /(^|\.)instagram\.com$/, params: [], pathPatterns: [/^\/explore\/tags\/([^/]+)/i] },
+    { name: 'Twitch', host: /(^|\.)twitch\.tv$/, params: ['term'] },
+    { name: 'Pinterest', host: /(^|\.)pinterest\.[a-z.]+$/, params: ['q'] }
+];
+
+// Query parameters that commonly hold search text on sites not in the table above
+const SEARCH_QUERY_PARAMS = ['q', 'query', 'search', 'text', 'term', 'p', 'keyword'];
+
+// Turned-off blocklist entries are kept as comments starting with this prefix
+const DISABLED_ENTRY_PREFIX = '# off: ';
+
+// A row in the rule table: one blocklist entry and what the editor knows about it
+interface BlocklistRow {
+    entry: string;
+    enabled: boolean;
+    rule: BlockRule | null; // null for entries that can't be parsed, such as invalid regular expressions
+    warnings: string[];
+}
+
+// Keywords that appear in nearly every URL
+const COMMON_URL_PARTS = ['http', 'https', 'www', 'com', 'org', 'net', 'html', 'php', 'index', 'search'];
+
+// Link redirectors that carry their destination in a query parameter
+interface UrlRedirector {
+    host: RegExp;
+    path?: RegExp;
+    params: string[];
+}
+
+const URL_REDIRECTORS: UrlRedirector[] = [
+    { host: /(^|\.)google\.[a-z.]+$/, path: /^\/url$/, params: ['q', 'url'] },
+    { host: /^translate\.google\.[a-z.]+$/, params: ['u'] },
+    { host: /^(l|lm)\.facebook\.com$/, params: ['u'] },
+    { host: /^l\.instagram\.com$/, params: ['u'] },
+    { host: /(^|\.)youtube\.com$/, path: /^\/redirect$/, params: ['q'] },
+    { host: /^out\.reddit\.com$/, params: ['url'] },
+    { host: /(^|\.)duckduckgo\.com$/, path: /^\/l\/?$/, params: ['uddg'] },
+    { host: /(^|\.)linkedin\.com$/, path: /^\/redir/, params: ['url'] },
+    { host: /(^|\.)safelinks\.protection\.outlook\.com$/, params: ['url'] },
+    { host: /^slack-redir\.net$/, params: ['url'] },
+    { host: /^steamcommunity\.com$/, path: /^\/linkfilter/, params: ['url', 'u'] },
+    { host: /^(m\.)?vk\.com$/, path: /^\/away\.php/, params: ['to'] }
+];
+
+// Subdomains that serve the same site and are ignored when matching
+const EQUIVALENT_SUBDOMAINS = /^(www\d*|m|mobile)\./;
+
+// Cyrillic and Greek letters that look like Latin ones, for catching lookalike domains
+const CONFUSABLE_CHARACTERS: Record<string, string> = {
+    'а': 'a', 'е': 'e', 'ё': 'e', 'һ': 'h', 'і': 'i', 'ї': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l', 'о': 'o',
+    'р': 'p', 'ԛ': 'q', 'с': 'c', 'ѕ': 's', 'ԝ': 'w', 'х': 'x', 'у': 'y', 'ү': 'y', 'ԁ': 'd', 'ɡ': 'g',
+    'ı': 'i', 'ɩ': 'i', 'α': 'a', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+    'τ': 't', 'υ': 'u', 'χ': 'x', 'γ': 'y', 'ω': 'w'
+};
+
+// Parse a single blocklist entry into a rule
+//   ||reddit.com        domain and all of its subdomains
+//   youtube.com/shorts  path prefix on a domain (and its subdomains)
+//   *.example.com/ads*  wildcard pattern over host, path and query
+//   /casino|poker/      regular expression over the full URL
+//   ?gaming             keyword that only applies to search query text
+//   "ai" or ?"ai"       keyword that only matches as a whole word
+//   title:breaking      keyword in the title of the loaded page
+//   content:celebrity   keyword repeated in the visible text of the loaded page
+//   anything else       keyword matched anywhere in the URL (original behaviour)
+// Any of these can be prefixed with @@ to turn it into an exception.
+function parseRule(entry: string): BlockRule | null {
+    const raw = entry.trim();
+    if (!raw) return null;
+
+    if (isExceptionEntry(raw)) {
+        const rule = parseRule(raw.slice(2));
+        return rule && !rule.exception ? { ...rule, raw, exception: true } : null;
+    }
+
+    // Regular expression rules
+    if (raw.length > 2 && raw.startsWith('/') && raw.endsWith('/')) {
+        try {
+            return { raw, type: 'regex', pattern: raw.slice(1, -1), regex: new RegExp(raw.slice(1, -1), 'i'), exception: false };
+        } catch (error) {
+            // Invalid expressions are ignored rather than blocking everything
+            return null;
         }
+    }
+
+    // Keywords restricted to search queries
+    if (raw.startsWith('?')) {
+        const { keyword, wholeWord } = parseKeyword(raw.slice(1));
+        return keyword ? { raw, type: 'query', pattern: keyword, wholeWord, exception: false } : null;
+    }
+
+    // Keywords checked against the loaded page rather than its URL
+    const pageMatch = raw.match(/^(title|content):(.+)$/i);
+    if (pageMatch) {
+        const { keyword, wholeWord } = parseKeyword(pageMatch[2]);
+        const type = pageMatch[1].toLowerCase() as 'title' | 'content';
+        return keyword ? { raw, type, pattern: keyword, wholeWord, exception: false } : null;
+    }
+
+    // Quoted keywords match whole words only
+    if (/^".+"$/.test(raw)) {
+        const { keyword, wholeWord } = parseKeyword(raw);
+        return keyword ? { raw, type: 'keyword', pattern: keyword, wholeWord, exception: false } : null;
+    }
+
+    const lower = raw.toLowerCase();
+
+    // Wildcard rules
+    if (lower.includes('*')) {
+        const stripped = lower.replace(/^\|\|/, '').replace(/^[a-z]+:\/\//, '');
         
-        // Check if nuclear mode should be active
-        if (this.settings.nuclearModeEnabled) {
-            this.settings.nuclearActive = this.checkNuclearStatus();
-            if (this.settings.nuclearActive) {
-                this.enforceNuclearMode();
-            }
-            this.startNuclearTimer();
+        // Normalize a literal host the way URL hosts are, so www.example.com/* also covers m.example.com
+        const slash = stripped.indexOf('/');
+        const hostPart = slash === -1 ? stripped : stripped.slice(0, slash);
+        const pattern = hostPart.includes('*') ? stripped : normalizeHost(hostPart) + stripped.slice(hostPart.length);
+        const source = pattern
+            .split('*')
+            .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*');
+        // Host-only patterns cover every path on the hosts they match
+        const end = pattern.includes('/') ? '$' : '(?:[/?].*)?$';
+        return { raw, type: 'wildcard', pattern, regex: new RegExp(`^${source}${end}`), exception: false };
+    }
+
+    // Domain-anchored rules, optionally with a path
+    const anchored = lower.startsWith('||');
+    const hostAndPath = anchored ? lower.slice(2).replace(/\^$/, '') : lower;
+    const match = hostAndPath.match(/^([a-z0-9-]+(?:\.[a-z0-9-]+)+)(\/.*)?$/);
+    if (match && (anchored || match[2])) {
+        // Keep www., m. and mobile. here: ruleDomainMatches treats them as naming one host, not a whole domain
+        const domain = foldHost(match[1]);
+        const path = match[2];
+        if (path && path !== '/') {
+            return { raw, type: 'path', pattern: path, domain, exception: false };
         }
+        return { raw, type: 'domain', pattern: domain, domain, exception: false };
     }
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Plain keywords
+    return { raw, type: 'keyword', pattern: normalizeText(lower.replace(/^\|\|/, '')), exception: false };
+}
+
+// Normalize a keyword, unwrapping the quotes that ask for whole-word matching
+function parseKeyword(text: string): { keyword: string, wholeWord: boolean } {
+    const trimmed = text.trim();
+    const quoted = /^".+"$/.test(trimmed);
+    return { keyword: normalizeText(quoted ? trimmed.slice(1, -1) : trimmed), wholeWord: quoted };
+}
+
+// Lowercase text, fold accents (é -> e) and collapse runs of whitespace
+function normalizeText(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Check whether a character is a letter or digit, in any script
+function isWordCharacter(char: string): boolean {
+    return /[a-z0-9]/.test(char) || char.toLowerCase() !== char.toUpperCase();
+}
+
+// Check whether text contains a keyword, optionally only as a whole word
+function containsKeyword(text: string, keyword: string, wholeWord?: boolean): boolean {
+    return countKeyword(text, keyword, wholeWord, 1) > 0;
+}
+
+// Count the times a keyword appears in text, stopping once the limit is reached
+function countKeyword(text: string, keyword: string, wholeWord: boolean | undefined, limit: number): number {
+    let count = 0;
+    let index = text.indexOf(keyword);
+    while (index !== -1 && count < limit) {
+        const before = index > 0 ? text[index - 1] : '';
+        const after = text[index + keyword.length] || '';
+        if (!wholeWord || ((!before || !isWordCharacter(before)) && (!after || !isWordCharacter(after)))) {
+            count++;
+        }
+        index = text.indexOf(keyword, index + 1);
     }
+    return count;
+}
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+// Check whether a title: or content: rule matches a loaded page
+function pageRuleMatches(rule: BlockRule, title: string, text: string, threshold: number): boolean {
+    switch (rule.type) {
+        case 'title':
+            return containsKeyword(title, rule.pattern, rule.wholeWord);
+        case 'content':
+            return !!text && countKeyword(text, rule.pattern, rule.wholeWord, threshold) >= threshold;
+        default:
+            return false;
     }
+}
 
-    async ensureDataFolder() {
-        // Make sure the data folder exists
-        const dataFolderExists = await this.app.vault.adapter.exists(this.manifest.dir + '/data');
-        if (!dataFolderExists) {
-            await this.app.vault.adapter.mkdir(this.manifest.dir + '/data');
+// Check whether a blocklist entry is an exception (@@) rule
+function isExceptionEntry(entry: string): boolean {
+    return entry.trim().startsWith('@@');
+}
+
+// Decode a URL component once, leaving malformed escape sequences as they are
+function safeDecode(value: string): string {
+    return value.replace(/(%[0-9a-f]{2})+/gi, sequence => {
+        try {
+            return decodeURIComponent(sequence);
+        } catch (error) {
+            return sequence;
+        }
+    });
+}
+
+// Decode a punycode label (without its xn-- prefix) as described in RFC 3492
+function decodePunycode(input: string): string {
+    const base = 36, tMin = 1, tMax = 26;
+    const adapt = (delta: number, numPoints: number, firstTime: boolean) => {
+        delta = firstTime ? Math.floor(delta / 700) : delta >> 1;
+        delta += Math.floor(delta / numPoints);
+        let k = 0;
+        while (delta > ((base - tMin) * tMax) >> 1) {
+            delta = Math.floor(delta / (base - tMin));
+            k += base;
         }
+        return Math.floor(k + (base - tMin + 1) * delta / (delta + 38));
+    };
+
+    // Basic code points come before the last delimiter
+    const delimiter = input.lastIndexOf('-');
+    const output: number[] = [];
+    for (let j = 0; j < Math.max(delimiter, 0); j++) {
+        output.push(input.charCodeAt(j));
     }
 
-    async loadBlocklist() {
-        const blocklistPath = this.manifest.dir + '/data/' + this.blocklistFilePath;
-        
+    let n = 128, bias = 72, i = 0;
+    for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+        const oldI = i;
+        for (let w = 1, k = base; ; k += base) {
+            if (index >= input.length) throw new Error('Invalid punycode');
+            const code = input.charCodeAt(index++);
+            const digit = code - 48 < 10 ? code - 22 : code - 65 < 26 ? code - 65 : code - 97 < 26 ? code - 97 : base;
+            if (digit >= base) throw new Error('Invalid punycode');
+            i += digit * w;
+            const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+            if (digit < t) break;
+            w *= base - t;
+        }
+        const length = output.length + 1;
+        bias = adapt(i - oldI, length, oldI === 0);
+        n += Math.floor(i / length);
+        i %= length;
+        output.splice(i++, 0, n);
+    }
+    return String.fromCodePoint(...output);
+}
+
+// Normalize a hostname for matching: decode punycode to Unicode, fold lookalike
+// characters and accents, and drop www., m. and mobile. prefixes
+function normalizeHost(host: string): string {
+    return foldHost(host).replace(EQUIVALENT_SUBDOMAINS, '');
+}
+
+// Decode punycode and fold lookalike characters and accents, keeping every label
+function foldHost(host: string): string {
+    const unicodeHost = host.toLowerCase().replace(/\.$/, '').split('.').map(label => {
+        if (!label.startsWith('xn--')) return label;
         try {
-            // Check if blocklist file exists
-            const blocklistExists = await this.app.vault.adapter.exists(blocklistPath);
-            
-            if (!blocklistExists) {
-                // Create default blocklist file using settings content
-                await this.app.vault.adapter.write(blocklistPath, this.settings.blocklistContent);
-            } else {
-                // Read the blocklist file to update settings
-                const data = await this.app.vault.adapter.read(blocklistPath);
-                if (data) {
-                    this.settings.blocklistContent = data;
-                    await this.saveSettings();
-                }
-            }
-            
-            // Parse the content of the file
-            this.stringsToCheck = this.parseBlocklist(this.settings.blocklistContent);
+            return decodePunycode(label.slice(4));
         } catch (error) {
-            // If there's an error, use default values
-            this.stringsToCheck = this.parseBlocklist(DEFAULT_SETTINGS.blocklistContent);
+            return label;
         }
+    }).join('.');
+
+    const folded = Array.from(unicodeHost.normalize('NFKC'))
+        .map(char => CONFUSABLE_CHARACTERS[char] || char)
+        .join('')
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '');
+    return folded;
+}
+
+// Get the destination of a redirector or proxy URL (Google AMP, Google Translate and the
+// link wrappers in URL_REDIRECTORS), or null if the URL isn't one
+function unwrapUrl(url: string): string | null {
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(url);
+    } catch (error) {
+        return null;
     }
-    
-    // Update blocklist file from settings
-    async saveBlocklist() {
-        // If nuclear mode is active, ensure we're not removing any entries
-        if (this.settings.nuclearActive) {
-            // Get the original blocklist entries (from when nuclear mode started)
-            const originalEntries = this.parseBlocklist(this.originalBlocklist);
-            
-            // Get the current entered blocklist content
-            const currentEntries = this.parseBlocklist(this.settings.blocklistContent);
-            
-            // Check if all original entries are still present
-            const missingEntries = originalEntries.filter(entry => 
-                !currentEntries.includes(entry));
-                
-            if (missingEntries.length > 0) {
-                // Some original entries were removed, which isn't allowed
-                new Notice('Removing entries is not allowed during nuclear mode. Your additions have been preserved.');
-                
-                // Create a new blocklist with all original entries AND any new entries
-                const allEntries = [...new Set([...originalEntries, ...currentEntries])];
-                
-                // Update the blocklist content
-                this.settings.blocklistContent = allEntries.join('\n');
-                
-                // Update the text area in the UI if it exists
-                const textArea = document.querySelector('.blocklist-editor') as HTMLTextAreaElement;
-                if (textArea) {
-                    textArea.value = this.settings.blocklistContent;
-                }
+    const host = parsedUrl.hostname.toLowerCase();
+    const rest = parsedUrl.search + parsedUrl.hash;
+    let destination: string | null = null;
+
+    if (host.endsWith('.translate.goog')) {
+        // www-reddit-com.translate.goog: dashes stand for dots, double dashes for dashes
+        const original = host.slice(0, -'.translate.goog'.length)
+            .replace(/--/g, '\0').replace(/-/g, '.').replace(/\0/g, '-');
+        destination = `https://${original}${parsedUrl.pathname}${rest}`;
+    } else if (/(^|\.)cdn\.ampproject\.org$/.test(host) || /(^|\.)google\.[a-z.]+$/.test(host)) {
+        // AMP caches: /c/s/example.com/page on cdn.ampproject.org and google.com/amp/s/example.com/page.
+        // Other single-letter paths on Google hosts are real pages, like Workspace's /a/example.org/
+        const prefix = host.endsWith('cdn.ampproject.org') ? '[a-z]' : 'amp';
+        const ampMatch = parsedUrl.pathname.match(new RegExp(`^/${prefix}/(s/)?([^/]+\\.[^/]+.*)$`));
+        if (ampMatch) {
+            destination = `${ampMatch[1] ? 'https' : 'http'}://${ampMatch[2]}${rest}`;
+        }
+    }
+
+    const redirector = URL_REDIRECTORS.find(entry =>
+        entry.host.test(host) && (!entry.path || entry.path.test(parsedUrl.pathname)));
+    if (!destination && redirector) {
+        for (const param of redirector.params) {
+            const value = parsedUrl.searchParams.get(param);
+            if (value) {
+                destination = value;
+                break;
             }
-            
-            // Update the original blocklist to include any new additions
-            // This ensures that newly added terms are also protected from removal
-            this.originalBlocklist = this.settings.blocklistContent;
         }
-        
-        const blocklistPath = this.manifest.dir + '/data/' + this.blocklistFilePath;
-        
+    }
+
+    return destination && /^https?:\/\//i.test(destination) ? destination : null;
+}
+
+// The URL itself followed by every destination it wraps, for checking each of them
+function getUrlCandidates(url: string): string[] {
+    const candidates = [url];
+    let next = unwrapUrl(url);
+    while (next && !candidates.includes(next) && candidates.length < 5) {
+        candidates.push(next);
+        next = unwrapUrl(next);
+    }
+    return candidates;
+}
+
+// Find the known search engine for a host, if any
+function findSearchEngine(host: string): SearchEngine | null {
+    return SEARCH_ENGINES.find(engine => engine.host.test(host)) || null;
+}
+
+// Build the match context for a URL, or null if it cannot be parsed
+function buildUrlMatchContext(url: string): UrlMatchContext | null {
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(url);
+    } catch (error) {
         try {
-            await this.app.vault.adapter.write(blocklistPath, this.settings.blocklistContent);
-            this.stringsToCheck = this.parseBlocklist(this.settings.blocklistContent);
-            return true;
-        } catch (error) {
-            console.error("Failed to save blocklist:", error);
-            return false;
+            // Address bars sometimes hold URLs without a scheme
+            parsedUrl = new URL('https://' + url);
+        } catch (innerError) {
+            return null;
         }
     }
-    
-    parseBlocklist(content: string): string[] {
-        const keywords: string[] = [];
-        
-        // Split by newline first
-        const lines = content.split(/\r?\n/);
-        
-        for (const line of lines) {
-            // Skip empty lines
-            if (!line.trim()) continue;
-            
-            // Check if the line has common separators (comma, tab, semicolon)
-            if (line.includes(',') || line.includes('\t') || line.includes(';')) {
-                // Split by common separators
-                const parts = line.split(/[,\t;]+/);
-                
-                for (const part of parts) {
-                    const trimmed = part.trim();
-                    if (trimmed) keywords.push(trimmed);
-                }
-            } else {
-                // Just add the whole line as a keyword
-                keywords.push(line.trim());
+
+    const host = normalizeHost(parsedUrl.hostname);
+    const engine = findSearchEngine(host);
+    const queryParams = engine ? engine.params : SEARCH_QUERY_PARAMS;
+    const fragmentParams = engine ? engine.fragmentParams || [] : SEARCH_QUERY_PARAMS;
+
+    const queries: UrlText[] = [];
+    const params: UrlText[] = [];
+    const collect = (values: URLSearchParams, searchKeys: string[], part: string) => {
+        values.forEach((value, key) => {
+            // URLSearchParams has already decoded the value (and turned + into spaces) once
+            const param = { source: `${part} "${key}"`, text: normalizeText(value) };
+            params.push(param);
+            if (searchKeys.includes(key.toLowerCase())) {
+                queries.push(param);
             }
+        });
+    };
+    collect(parsedUrl.searchParams, queryParams, 'parameter');
+    if (parsedUrl.hash.includes('=')) {
+        collect(new URLSearchParams(parsedUrl.hash.slice(1)), fragmentParams, 'fragment');
+    }
+
+    // Queries kept in the path, like /hashtag/<tag>
+    for (const pattern of engine?.pathPatterns || []) {
+        const match = parsedUrl.pathname.match(pattern);
+        if (match) {
+            queries.push({ source: 'path', text: normalizeText(safeDecode(match[1].replace(/\+/g, ' '))) });
         }
-        
-        // Remove duplicates
-        return [...new Set(keywords)];
     }
 
-    startMonitoring() {
-        // Clear existing interval if any
-        if (this.intervalId) {
-            window.clearInterval(this.intervalId);
+    // Rebuild the URL around the normalized host so keywords see what the rules see
+    const port = parsedUrl.port ? ':' + parsedUrl.port : '';
+    const normalizedUrl = `${parsedUrl.protocol}//${host}${port}${parsedUrl.pathname}${parsedUrl.search}${parsedUrl.hash}`;
+
+    return {
+        url: normalizeText(safeDecode(normalizedUrl)),
+        host,
+        hostname: foldHost(parsedUrl.hostname),
+        path: (parsedUrl.pathname + parsedUrl.search).toLowerCase(),
+        queries,
+        params,
+        searchEngine: engine?.name
+    };
+}
+
+// Check whether a host is the given domain or one of its subdomains
+function hostMatchesDomain(host: string, domain: string): boolean {
+    return host === domain || host.endsWith('.' + domain);
+}
+
+// Check whether a URL's host falls under a rule's domain. A rule written with www., m. or mobile.
+// covers that host in any of its equivalent forms and its own subdomains, but not sibling subdomains
+function ruleDomainMatches(domain: string, context: UrlMatchContext): boolean {
+    const base = domain.replace(EQUIVALENT_SUBDOMAINS, '');
+    if (base === domain) return hostMatchesDomain(context.host, domain);
+    return context.host === base || hostMatchesDomain(context.hostname, domain);
+}
+
+// Check whether a single rule matches a URL
+function ruleMatches(rule: BlockRule, context: UrlMatchContext): boolean {
+    return findMatchLocation(rule, context) !== null;
+}
+
+// Describe the part of a URL a rule matches (host, path, a query parameter...), or null if it doesn't match
+function findMatchLocation(rule: BlockRule, context: UrlMatchContext): string | null {
+    switch (rule.type) {
+        case 'keyword': {
+            if (containsKeyword(context.url, rule.pattern, rule.wholeWord)) {
+                return containsKeyword(context.host, rule.pattern, rule.wholeWord) ? 'host'
+                    : containsKeyword(context.path, rule.pattern, rule.wholeWord) ? 'path'
+                    : 'URL';
+            }
+            const param = context.params.find(param => containsKeyword(param.text, rule.pattern, rule.wholeWord));
+            return param ? param.source : null;
+        }
+        case 'query': {
+            const query = context.queries.find(query => containsKeyword(query.text, rule.pattern, rule.wholeWord));
+            return query ? `search query (${query.source})` : null;
+        }
+        case 'domain':
+            return ruleDomainMatches(rule.pattern, context) ? 'host' : null;
+        case 'path':
+            return !!rule.domain && ruleDomainMatches(rule.domain, context) &&
+                context.path.startsWith(rule.pattern) ? 'host and path' : null;
+        case 'wildcard':
+            // Patterns like *.example.com name a subdomain, so also try the host as written
+            return !!rule.regex && (rule.regex.test(context.host + context.path) ||
+                rule.regex.test(context.hostname + context.path)) ? 'host and path' : null;
+        case 'regex':
+            return !!rule.regex && rule.regex.test(context.url) ? 'URL' : null;
+        case 'title':
+        case 'content':
+            // Checked against the page once it has loaded
+            return null;
+    }
+}
+
+// Get the entry a turned-off blocklist line holds, or null if the line isn't one
+function parseDisabledEntry(line: string): string | null {
+    const match = line.trim().match(/^#\s*off:\s*(.+)$/i);
+    return match ? match[1].trim() : null;
+}
+
+// Human-readable name for a rule's type
+function describeRuleType(rule: BlockRule | null): string {
+    if (!rule) return 'Invalid';
+    
+    const names: Record<BlockRuleType, string> = {
+        keyword: 'Keyword',
+        query: 'Search keyword',
+        domain: 'Domain',
+        path: 'Path',
+        wildcard: 'Wildcard',
+        regex: 'Regular expression',
+        title: 'Page title',
+        content: 'Page content'
+    };
+    const name = rule.wholeWord ? `${names[rule.type]} (whole word)` : names[rule.type];
+    return rule.exception ? `Exception: ${name.toLowerCase()}` : name;
+}
+
+// Warn about rules that match far more than intended, or null if the rule looks fine
+function getBroadRuleWarning(rule: BlockRule): string | null {
+    switch (rule.type) {
+        case 'keyword':
+        case 'query':
+        case 'title':
+        case 'content':
+            if (rule.pattern.length < (rule.wholeWord ? 2 : 3)) {
+                return `Too broad: matches anything containing "${rule.pattern}"`;
+            }
+            if (rule.type === 'keyword' && COMMON_URL_PARTS.includes(rule.pattern)) {
+                return 'Too broad: appears in most URLs';
+            }
+            return null;
+        case 'wildcard':
+            return rule.pattern.replace(/[*./]/g, '').length < 3 ? 'Too broad: matches almost every URL' : null;
+        case 'regex':
+            return rule.regex && (rule.regex.test('') || rule.regex.test('https://example.com/'))
+                ? 'Too broad: matches almost every URL'
+                : null;
+        default:
+            return null;
+    }
+}
+
+// Check whether every URL one rule matches is already matched by another rule
+function ruleCovers(broader: BlockRule, narrower: BlockRule): boolean {
+    if (broader.exception !== narrower.exception) return false;
+    
+    switch (broader.type) {
+        case 'domain':
+            return (narrower.type === 'domain' || narrower.type === 'path') &&
+                !!narrower.domain && hostMatchesDomain(narrower.domain, broader.pattern);
+        case 'path':
+            return narrower.type === 'path' && !!narrower.domain && !!broader.domain &&
+                hostMatchesDomain(narrower.domain, broader.domain) && narrower.pattern.startsWith(broader.pattern);
+        case 'keyword':
+            if (broader.wholeWord) return false;
+            if (narrower.type === 'keyword' || narrower.type === 'query') {
+                return narrower.pattern.includes(broader.pattern);
+            }
+            return (narrower.type === 'domain' || narrower.type === 'path') &&
+                ((narrower.domain || '') + (narrower.type === 'path' ? narrower.pattern : '')).includes(broader.pattern);
+        case 'query':
+        case 'title':
+            return narrower.type === broader.type && !broader.wholeWord && narrower.pattern.includes(broader.pattern);
+        default:
+            return false;
+    }
+}
+
+// Build the rule table rows for blocklist content, flagging duplicates, overlaps,
+// invalid entries and rules that are too broad
+function analyzeBlocklist(content: string, parseEntries: (text: string) => string[]): BlocklistRow[] {
+    const rows: BlocklistRow[] = [];
+    const seen = new Map<string, BlocklistRow>();
+    
+    for (const line of content.split(/\r?\n/)) {
+        const disabled = parseDisabledEntry(line);
+        const entries = disabled ? [disabled] : parseEntries(line);
+        for (const entry of entries) {
+            // An entry that is both turned off and listed again is in effect
+            const existing = seen.get(entry);
+            if (existing) {
+                existing.enabled = existing.enabled || !disabled;
+                continue;
+            }
+            const row = { entry, enabled: !disabled, rule: parseRule(entry), warnings: [] };
+            seen.set(entry, row);
+            rows.push(row);
+        }
+    }
+    
+    // Rules that parse to the same thing are duplicates, even if written differently
+    const ruleKey = (rule: BlockRule) =>
+        [rule.exception, rule.type, rule.pattern, rule.domain || '', !!rule.wholeWord].join('|');
+    const enabledRows = rows.filter(row => row.enabled && row.rule);
+    
+    for (const row of rows) {
+        const rule = row.rule;
+        if (!rule) {
+            row.warnings.push('Invalid rule: it is ignored');
+            continue;
+        }
+        
+        const broad = getBroadRuleWarning(rule);
+        if (broad) row.warnings.push(broad);
+        
+        const duplicate = enabledRows.find(other => other !== row && other.rule && ruleKey(other.rule) === ruleKey(rule));
+        if (duplicate) {
+            row.warnings.push(`Duplicate of ${duplicate.entry}`);
+            continue;
+        }
+        
+        const covering = enabledRows.find(other => other !== row && other.rule &&
+            ruleKey(other.rule) !== ruleKey(rule) && ruleCovers(other.rule, rule));
+        if (covering) {
+            row.warnings.push(`Already covered by ${covering.entry}`);
+        }
+    }
+    
+    return rows;
+}
+
+// Convert a hosts file, Adblock/uBlock filter list or plain domain list into blocklist entries
+function convertImportedList(content: string): ImportResult {
+    const entries: string[] = [];
+    const counts: Record<ImportFormat, number> = { hosts: 0, adblock: 0, domains: 0 };
+    let skipped = 0;
+    
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        
+        // Skip blank lines, comments and list headers
+        if (!line || line.startsWith('#') || line.startsWith('!') || /^\[.*\]$/.test(line)) continue;
+        
+        // Markdown list items
+        const text = line.replace(/^[-*+]\s+/, '');
+        
+        // Hosts entries: "0.0.0.0 domain [domain...]"
+        const hostsMatch = text.match(/^(?:0\.0\.0\.0|127\.0\.0\.1|::1?)\s+(.+)$/);
+        if (hostsMatch) {
+            const domains = hostsMatch[1].replace(/#.*$/, '').split(/\s+/)
+                .filter(domain => domain && !/^(localhost|local|broadcasthost|0\.0\.0\.0)$/.test(domain));
+            domains.forEach(domain => entries.push('||' + domain.toLowerCase()));
+            counts.hosts++;
+            continue;
+        }
+        
+        // Cosmetic filters hide page elements and have no URL equivalent
+        if (/#[@?$%]?#/.test(text)) {
+            skipped++;
+            continue;
+        }
+        
+        // Network filters: "||domain^", "||domain/path^$options", "@@||domain^"
+        const filterMatch = text.match(/^(@@)?\|\|([a-z0-9.-]+)(\/[^$^]*)?\^?(\$.*)?$/i);
+        if (filterMatch) {
+            const [, exception, domain, path, options] = filterMatch;
+            if (options && !options.slice(1).split(',').every(option => PAGE_FILTER_OPTIONS.includes(option.trim().toLowerCase()))) {
+                skipped++;
+                continue;
+            }
+            entries.push(`${exception || ''}||${domain.toLowerCase()}${path || ''}`);
+            counts.adblock++;
+            continue;
+        }
+        
+        // Plain domains
+        if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(text)) {
+            entries.push('||' + text.toLowerCase());
+            counts.domains++;
+            continue;
+        }
+        
+        skipped++;
+    }
+    
+    const unique = [...new Set(entries)];
+    const format = (Object.keys(counts) as ImportFormat[])
+        .reduce((best, format) => counts[format] > counts[best] ? format : best, 'domains' as ImportFormat);
+    
+    return { format, entries: unique, duplicates: entries.length - unique.length, skipped };
+}
+
+// A list item in a blocklist note
+interface NoteListItem {
+    line: number; // Index of the line in the note
+    text: string; // Item text without the list marker
+}
+
+// Find the list items in a markdown note, ignoring frontmatter and %% or <!-- --> comments
+function getNoteListItems(markdown: string): NoteListItem[] {
+    const lines = markdown.split(/\r?\n/);
+    const items: NoteListItem[] = [];
+    let inFrontmatter = lines[0] === '---';
+    let inComment = false;
+    
+    lines.forEach((line, index) => {
+        if (inFrontmatter) {
+            if (index > 0 && line.trim() === '---') inFrontmatter = false;
+            return;
+        }
+        
+        // Remove commented-out text, which may span several lines
+        let visible = '';
+        let rest = line;
+        while (rest) {
+            const position = rest.search(inComment ? /%%|-->/ : /%%|<!--/);
+            if (position < 0) {
+                if (!inComment) visible += rest;
+                break;
+            }
+            if (!inComment) visible += rest.slice(0, position);
+            const markerLength = rest.startsWith('%%', position) ? 2 : inComment ? 3 : 4;
+            rest = rest.slice(position + markerLength);
+            inComment = !inComment;
+        }
+        
+        const match = visible.match(/^\s*[-*+]\s+(?:\[.\]\s+)?(.*)$/);
+        if (match) {
+            // Entries may be wrapped in backticks to keep markdown from formatting them
+            const text = match[1].trim().replace(/^`(.*)`$/, '$1').trim();
+            if (text) items.push({ line: index, text });
+        }
+    });
+    
+    return items;
+}
+
+// Read blocklist content (one item per line) from a blocklist note
+function parseBlocklistNote(markdown: string): string {
+    return getNoteListItems(markdown).map(item => item.text).join('\n');
+}
+
+// Rewrite a blocklist note so its list items hold exactly the given entries,
+// keeping headings, comments and the order of existing items
+function updateBlocklistNote(markdown: string, entries: string[], parseEntries: (text: string) => string[]): string {
+    const lines = markdown.split(/\r?\n/);
+    const remaining = new Set(entries);
+    const removedLines = new Set<number>();
+    
+    for (const item of getNoteListItems(markdown)) {
+        const itemEntries = parseEntries(item.text);
+        const kept = itemEntries.filter(entry => remaining.has(entry));
+        kept.forEach(entry => remaining.delete(entry));
+        
+        if (kept.length === 0) {
+            removedLines.add(item.line);
+        } else if (kept.length < itemEntries.length) {
+            // Keep the list marker and indentation, drop the removed entries
+            const prefix = lines[item.line].match(/^\s*[-*+]\s+(?:\[.\]\s+)?/);
+            lines[item.line] = (prefix ? prefix[0] : '- ') + kept.join(', ');
+        }
+    }
+    
+    const result = lines.filter((line, index) => !removedLines.has(index));
+    
+    // Append new entries at the end of the note
+    if (remaining.size > 0) {
+        while (result.length > 0 && !result[result.length - 1].trim()) result.pop();
+        result.push(...[...remaining].map(entry => `- ${entry}`), '');
+    }
+    
+    return result.join('\n');
+}
+
+// Local calendar day of a date as "YYYY-MM-DD"
+function getDayKey(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Count occurrences and return the most common values, highest first
+function getTopCounts(values: string[], limit: number): [string, number][] {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
+
+// Summarize the block log for the statistics dashboard
+function summarizeBlockLog(entries: BlockLogEntry[], now: Date): BlockLogSummary {
+    const countsByDay = new Map<string, number>();
+    entries.forEach(entry => {
+        const day = getDayKey(new Date(entry.timestamp));
+        countsByDay.set(day, (countsByDay.get(day) || 0) + 1);
+    });
+    
+    // Attempts per day for the last two weeks
+    const perDay: { day: string; count: number }[] = [];
+    for (let offset = 13; offset >= 0; offset--) {
+        const day = getDayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset));
+        perDay.push({ day, count: countsByDay.get(day) || 0 });
+    }
+    
+    // Streaks of days without any blocks, from the first logged day until today
+    let currentStreak = 0;
+    let longestStreak = 0;
+    if (entries.length > 0) {
+        const first = new Date(Math.min(...entries.map(entry => entry.timestamp)));
+        const day = new Date(first.getFullYear(), first.getMonth(), first.getDate());
+        while (day <= now) {
+            currentStreak = countsByDay.has(getDayKey(day)) ? 0 : currentStreak + 1;
+            longestStreak = Math.max(longestStreak, currentStreak);
+            day.setDate(day.getDate() + 1);
+        }
+    }
+    
+    const domains = entries.map(entry => {
+        const context = buildUrlMatchContext(entry.url);
+        return context ? context.host.replace(/^www\./, '') : entry.url;
+    });
+    const insideNuclear = entries.filter(entry => entry.nuclear).length;
+    
+    return {
+        total: entries.length,
+        perDay,
+        topRules: getTopCounts(entries.map(entry => entry.rule), 10),
+        topDomains: getTopCounts(domains, 10),
+        insideNuclear,
+        outsideNuclear: entries.length - insideNuclear,
+        currentStreak,
+        longestStreak
+    };
+}
+
+// Convert block log entries to CSV
+function blockLogToCsv(entries: BlockLogEntry[]): string {
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = entries.map(entry => [
+        new Date(entry.timestamp).toISOString(),
+        escape(entry.url),
+        escape(entry.rule),
+        entry.nuclear ? 'yes' : 'no',
+        entry.action
+    ].join(','));
+    return ['timestamp,url,rule,nuclear,action', ...rows].join('\n') + '\n';
+}
+
+// The budget period a time falls in, named after the day it started on;
+// periods start at the reset time each day
+function getBudgetPeriod(now: Date, resetTime: string): string {
+    const [resetHour, resetMinute] = resetTime.split(':').map(Number);
+    const reset = new Date(now.getFullYear(), now.getMonth(), now.getDate(), resetHour, resetMinute);
+    return getDayKey(now < reset ? new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1) : now);
+}
+
+// Format a duration in milliseconds as e.g. "1h 5m" or "12m"
+function formatDuration(ms: number): string {
+    const totalMinutes = Math.max(0, Math.ceil(ms / 60000));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+// Checksum of a nuclear snapshot's contents (32-bit FNV-1a), used to spot hand edits
+function computeSnapshotChecksum(snapshot: Omit<NuclearSnapshot, 'checksum'>): string {
+    // Presets and the time zone are left out when missing, so older snapshots keep their checksum
+    const parts: unknown[] = [snapshot.entries, snapshot.windowEnd, snapshot.lastSeen];
+    if (snapshot.presets && snapshot.presets.length > 0) parts.push(snapshot.presets);
+    if (snapshot.timeZone) parts.push(snapshot.timeZone);
+    const text = JSON.stringify(parts);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+}
+
+// List every occurrence of the schedule that starts between the given days (inclusive)
+// Dates are built from local components so DST changes keep windows at their wall-clock times
+function getNuclearWindows(schedule: NuclearScheduleEntry[], from: Date, dayOffsets: number[]): NuclearWindow[] {
+    const windows: NuclearWindow[] = [];
+    
+    for (const offset of dayOffsets) {
+        const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+        
+        for (const entry of schedule) {
+            if (!(entry.days & (1 << day.getDay()))) continue;
+            
+            const [startHour, startMinute] = entry.start.split(':').map(Number);
+            const [endHour, endMinute] = entry.end.split(':').map(Number);
+            
+            // Windows that end at or before their start run past midnight. Compare the wall-clock
+            // times, since a DST change during the window moves one end by an hour
+            const crossesMidnight = endHour * 60 + endMinute <= startHour * 60 + startMinute;
+            const endDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + (crossesMidnight ? 1 : 0));
+            
+            windows.push({
+                start: getLocalTime(day, startHour, startMinute),
+                end: getLocalTime(endDay, endHour, endMinute)
+            });
+        }
+    }
+    
+    return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Build a local time on the given day. Times skipped when the clocks go forward resolve
+// to the moment of the change rather than an hour past it
+function getLocalTime(day: Date, hour: number, minute: number): Date {
+    const time = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+    if (time.getHours() === hour && time.getMinutes() === minute) return time;
+    
+    const offset = time.getTimezoneOffset();
+    let change = time.getTime();
+    while (new Date(change - 60000).getTimezoneOffset() === offset) {
+        change -= 60000;
+    }
+    return new Date(change);
+}
+
+function getTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || '';
+}
+
+function readClock(): ClockReading {
+    return { wall: Date.now(), monotonic: performance.now(), timeZone: getTimeZone() };
+}
+
+// Follow overlapping and back-to-back windows to find when enforcement actually ends
+function getMergedWindowEnd(windows: NuclearWindow[], end: Date): Date {
+    let mergedEnd = end;
+    let extended = true;
+    
+    while (extended) {
+        extended = false;
+        for (const window of windows) {
+            if (window.start <= mergedEnd && window.end > mergedEnd) {
+                mergedEnd = window.end;
+                extended = true;
+            }
+        }
+    }
+    
+    return mergedEnd;
+}
+
+// Find the window active at the given time, merged with any windows it runs into
+function getActiveNuclearWindow(schedule: NuclearScheduleEntry[], now: Date): NuclearWindow | null {
+    // Yesterday's windows can run past midnight; a week ahead covers any chain of windows
+    const windows = getNuclearWindows(schedule, now, [-1, 0, 1, 2, 3, 4, 5, 6, 7]);
+    const active = windows.filter(window => window.start <= now && now < window.end);
+    
+    if (active.length === 0) return null;
+    
+    const start = active[0].start;
+    const end = active.reduce((latest, window) => window.end > latest ? window.end : latest, active[0].end);
+    return { start, end: getMergedWindowEnd(windows, end) };
+}
+
+// Find the next window that starts after the given time (and after any active window),
+// merged with any windows it runs into
+function getNextNuclearWindow(schedule: NuclearScheduleEntry[], now: Date): NuclearWindow | null {
+    const active = getActiveNuclearWindow(schedule, now);
+    const after = active ? active.end : now;
+    const windows = getNuclearWindows(schedule, after, [0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    const next = windows.find(window => window.start > after);
+    
+    if (!next) return null;
+    
+    return { start: next.start, end: getMergedWindowEnd(windows, next.end) };
+}
+
+// Describe the weekdays in a bitmask, e.g. "Weekdays" or "Mon, Wed, Fri"
+function describeDays(days: number): string {
+    if (days === ALL_DAYS) return 'Every day';
+    if (days === WEEKDAYS) return 'Weekdays';
+    if (days === WEEKENDS) return 'Weekends';
+    return DAY_NAMES.filter((name, index) => days & (1 << index)).join(', ');
+}
+
+export default class WebViewerUrlChecker extends Plugin {
+    settings: WebViewerUrlCheckerSettings;
+    private monitoring = false;
+    private mutationObserver: MutationObserver | null = null;
+    private watchedWebviews: WeakSet<HTMLElement> = new WeakSet();
+    private lastCheckedUrls: WeakMap<HTMLElement, string> = new WeakMap();
+    private nuclearTimerId: number = 0;
+    private focusTimerId = 0;
+    private focusStatusBarEl: HTMLElement;
+    private budgetTimerId = 0;
+    private budgetStatusBarEl: HTMLElement;
+    private lastBudgetTick = 0;
+    private lastBudgetSave = 0;
+    private rules: BlockRule[] = [];
+    private blocklistFilePath = 'blocklist.txt';
+    private blockLogFilePath = 'block-log.jsonl';
+    private snapshotFilePath = 'nuclear-snapshot.json';
+    private auditLogFilePath = 'audit-log.jsonl';
+    private snapshotWindowEnd = 0;
+    private blocklistWatchId = 0;
+    private originalBlocklist: string = "";
+    private lastAllowedUrls: WeakMap<WorkspaceLeaf, string> = new WeakMap();
+    private snoozeTimerId = 0;
+    private noteModifyTimerId = 0;
+    private noteUnlockOpen = false;
+    private embedBlockTimes: Map<string, number> = new Map();
+    private lastClockReading: ClockReading = readClock();
+    api: WebBlockerApi;
+
+    async onload() {
+        // Load settings
+        await this.loadSettings();
+        
+        // Expose the API to other plugins
+        this.api = this.createApi();
+        
+        // Create data folder if it doesn't exist
+        await this.ensureDataFolder();
+        
+        // Let the user know when enabled presets changed with a plugin update
+        await this.checkPresetUpdates();
+        
+        // Load blocklist
+        await this.loadBlocklist();
+        
+        // Drop block log entries past the retention period
+        await this.pruneBlockLog();
+        
+        // Register the block screen and statistics views
+        this.registerView(BLOCKED_VIEW_TYPE, (leaf) => new BlockedPageView(leaf, this));
+        this.registerView(STATS_VIEW_TYPE, (leaf) => new BlockStatsView(leaf, this));
+        
+        // Add settings tab
+        this.addSettingTab(new WebViewerUrlCheckerSettingTab(this.app, this));
+        
+        // Add commands
+        this.registerCommands();
+        
+        // Add focus session countdown
+        this.focusStatusBarEl = this.addStatusBarItem();
+        this.focusStatusBarEl.hide();
+        
+        // Add time budget status
+        this.budgetStatusBarEl = this.addStatusBarItem();
+        this.budgetStatusBarEl.hide();
+        
+        // Pick up edits to the blocklist note once they are saved
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (this.settings.blocklistNotePath && file.path === this.settings.blocklistNotePath) {
+                this.scheduleBlocklistNoteCheck();
+            }
+        }));
+        
+        // Follow the blocklist note when it is renamed or moved
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            if (this.settings.blocklistNotePath && oldPath === this.settings.blocklistNotePath) {
+                this.settings.blocklistNotePath = file.path;
+                this.saveSettings();
+            }
+        }));
+        
+        // Check links leaving Obsidian: clicks in notes, window.open and the system browser
+        this.interceptExternalLinks();
+        
+        // Replace blocked iframes and other embedded pages in rendered notes
+        this.registerMarkdownPostProcessor(el => this.blockEmbeds(el));
+        
+        // Re-scan web viewers whenever tabs are opened, moved or focused
+        this.registerEvent(this.app.workspace.on('layout-change', () => this.checkAllWebViewerAddresses()));
+        this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.checkAllWebViewerAddresses()));
+        
+        // Start monitoring if enabled
+        if (this.settings.isEnabled) {
+            this.startMonitoring();
+        }
+        
+        // Restore anything removed while the plugin wasn't running during a nuclear window
+        await this.restoreNuclearSnapshot();
+        
+        // Check if nuclear mode should be active
+        if (this.settings.nuclearModeEnabled || this.isFocusSessionActive() || this.snapshotWindowEnd > Date.now()) {
+            this.settings.nuclearActive = this.checkNuclearStatus();
+            if (this.settings.nuclearActive) {
+                this.enforceNuclearMode();
+            }
+            this.startNuclearTimer();
+        }
+        
+        // Re-block snoozed domains when their passes run out
+        this.scheduleSnoozeExpiry();
+        
+        // Resume the countdown of a focus session that survived a restart
+        if (this.isFocusSessionActive()) {
+            this.startFocusCountdown();
+        }
+    }
+
+    // Build the API for other plugins; it goes through the same guards as the settings tab
+    private createApi(): WebBlockerApi {
+        return {
+            isBlocked: (url) => this.settings.isEnabled ? this.getBlockingRule(url) : null,
+            startEnforcement: async (minutes) => {
+                if (!(minutes > 0)) return false;
+                await this.startFocusSession(minutes, 'api');
+                return true;
+            },
+            stopEnforcement: () => this.stopApiFocusSession(),
+            addEntries: (entries) => this.addBlocklistEntries(entries),
+            getNuclearStatus: () => {
+                const endTime = this.settings.nuclearActive ? this.getNuclearEndTime() : null;
+                return {
+                    active: this.settings.nuclearActive,
+                    endTime: endTime ? endTime.getTime() : null,
+                    focusSessionEnd: this.isFocusSessionActive() ? this.settings.focusSessionEnd : null,
+                    nextWindow: this.settings.nuclearModeEnabled ? this.getNextNuclearWindow() : null
+                };
+            }
+        };
+    }
+
+    // Register command palette commands; each goes through the same guards as the settings tab
+    private registerCommands() {
+        this.addCommand({
+            id: 'toggle-blocking',
+            name: 'Toggle URL blocking',
+            callback: async () => {
+                const enabled = !this.settings.isEnabled;
+                if (await this.setBlockingEnabled(enabled)) {
+                    new Notice(enabled ? 'URL blocking enabled' : 'URL blocking disabled');
+                }
+            }
+        });
+        
+        this.addCommand({
+            id: 'block-current-domain',
+            name: 'Add current web viewer domain to blocklist',
+            checkCallback: (checking: boolean) => {
+                const url = this.getActiveWebViewerUrl();
+                const context = url ? buildUrlMatchContext(url) : null;
+                if (!context || !context.host) return false;
+                
+                if (!checking) {
+                    const entry = '||' + context.host.replace(/^www\./, '');
+                    this.addBlocklistEntries([entry]).then(added => {
+                        new Notice(added > 0 ? `Added ${entry} to the blocklist` : `${entry} is already in the blocklist`);
+                    });
+                }
+                return true;
+            }
+        });
+        
+        this.addCommand({
+            id: 'import-blocklist',
+            name: 'Import blocklist from file',
+            callback: () => new ImportFileSuggestModal(this.app, this).open()
+        });
+        
+        this.addCommand({
+            id: 'open-blocklist-editor',
+            name: 'Open blocklist editor',
+            callback: () => this.openSettingsTab()
+        });
+        
+        this.addCommand({
+            id: 'start-focus-session',
+            name: 'Start focus session',
+            callback: () => new FocusSessionModal(this.app, this).open()
+        });
+        
+        this.addCommand({
+            id: 'show-nuclear-status',
+            name: 'Show nuclear mode status',
+            callback: () => new Notice(this.describeNuclearStatus())
+        });
+        
+        this.addCommand({
+            id: 'open-statistics',
+            name: 'Open blocking statistics',
+            callback: () => this.openStatsView()
+        });
+        
+        this.addCommand({
+            id: 'test-url',
+            name: 'Test a URL against the blocklist',
+            callback: () => new TestUrlModal(this.app, this).open()
+        });
+    }
+
+    async loadSettings() {
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        
+        // Migrate the single daily window used by earlier versions
+        if (data && !data.nuclearSchedule && data.nuclearStartTime && data.nuclearEndTime) {
+            this.settings.nuclearSchedule = [{ days: ALL_DAYS, start: data.nuclearStartTime, end: data.nuclearEndTime }];
+        }
+        delete (this.settings as WebViewerUrlCheckerSettings & { nuclearStartTime?: string }).nuclearStartTime;
+        delete (this.settings as WebViewerUrlCheckerSettings & { nuclearEndTime?: string }).nuclearEndTime;
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    async ensureDataFolder() {
+        // Make sure the data folder exists
+        const dataFolderExists = await this.app.vault.adapter.exists(this.manifest.dir + '/data');
+        if (!dataFolderExists) {
+            await this.app.vault.adapter.mkdir(this.manifest.dir + '/data');
+        }
+    }
+
+    async loadBlocklist() {
+        const blocklistPath = this.manifest.dir + '/data/' + this.blocklistFilePath;
+        
+        try {
+            // A blocklist note in the vault takes the place of the data file
+            if (this.settings.blocklistNotePath) {
+                await this.loadBlocklistNote();
+                return;
+            }
+            
+            // Check if blocklist file exists
+            const blocklistExists = await this.app.vault.adapter.exists(blocklistPath);
+            
+            if (!blocklistExists) {
+                // Create default blocklist file using settings content
+                await this.app.vault.adapter.write(blocklistPath, this.settings.blocklistContent);
+            } else {
+                // Read the blocklist file to update settings
+                const data = await this.app.vault.adapter.read(blocklistPath);
+                if (data) {
+                    this.settings.blocklistContent = data;
+                    await this.saveSettings();
+                }
+            }
+            
+            // Parse the content of the file
+            this.rules = this.parseRules(this.settings.blocklistContent);
+        } catch (error) {
+            // If there's an error, use default values
+            this.rules = this.parseRules(DEFAULT_SETTINGS.blocklistContent);
+        }
+    }
+    
+    // Update blocklist file from settings
+    async saveBlocklist() {
+        // If nuclear mode is active, ensure we're not removing any entries
+        if (this.settings.nuclearActive) {
+            // Get the original blocklist entries (from when nuclear mode started)
+            const originalEntries = this.parseBlocklist(this.originalBlocklist);
+            
+            // Get the current entered blocklist content
+            const currentEntries = this.parseBlocklist(this.settings.blocklistContent);
+            
+            // Check if all original entries are still present (exceptions may be removed)
+            const missingEntries = originalEntries.filter(entry => 
+                !isExceptionEntry(entry) && !currentEntries.includes(entry));
+            
+            // Check for newly added exceptions, which would loosen blocking
+            const addedExceptions = currentEntries.filter(entry =>
+                isExceptionEntry(entry) && !originalEntries.includes(entry));
+                
+            if (missingEntries.length > 0 || addedExceptions.length > 0) {
+                // Some original entries were removed or exceptions added, which isn't allowed
+                new Notice('Removing entries or adding exceptions is not allowed during nuclear mode. Your other changes have been preserved.');
+                
+                // Edit the content in place so comments and turned-off entries survive: turn protected
+                // entries back on where they were turned off, drop added exceptions, append the rest
+                const restored = new Set<string>();
+                const lines: string[] = [];
+                for (const line of this.settings.blocklistContent.split(/\r?\n/)) {
+                    const disabled = parseDisabledEntry(line);
+                    if (disabled && missingEntries.includes(disabled)) {
+                        lines.push(disabled);
+                        restored.add(disabled);
+                        continue;
+                    }
+                    
+                    const lineEntries = this.parseBlocklist(line);
+                    const kept = lineEntries.filter(entry => !addedExceptions.includes(entry));
+                    if (kept.length === lineEntries.length) {
+                        lines.push(line);
+                    } else if (kept.length > 0) {
+                        lines.push(kept.join(', '));
+                    }
+                }
+                
+                const appended = missingEntries.filter(entry => !restored.has(entry));
+                while (appended.length > 0 && lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+                
+                // Update the blocklist content
+                this.settings.blocklistContent = [...lines, ...appended].join('\n');
+            }
+            
+            // Update the original blocklist to include any new additions
+            // This ensures that newly added terms are also protected from removal
+            this.originalBlocklist = this.settings.blocklistContent;
+            await this.saveNuclearSnapshot();
+        }
+        
+        this.updateBlocklistEditor();
+        
+        const blocklistPath = this.manifest.dir + '/data/' + this.blocklistFilePath;
+        
+        try {
+            if (this.settings.blocklistNotePath) {
+                await this.writeBlocklistNote();
+            } else {
+                await this.app.vault.adapter.write(blocklistPath, this.settings.blocklistContent);
+            }
+            this.rules = this.parseRules(this.settings.blocklistContent);
+            return true;
+        } catch (error) {
+            console.error("Failed to save blocklist:", error);
+            return false;
+        }
+    }
+    
+    // Show the saved blocklist in the settings text area, if it is open
+    private updateBlocklistEditor() {
+        const textArea = document.querySelector('.blocklist-editor') as HTMLTextAreaElement;
+        if (textArea) {
+            textArea.value = this.settings.blocklistContent;
+        }
+    }
+    
+    parseBlocklist(content: string): string[] {
+        const keywords: string[] = [];
+        
+        // Split by newline first
+        const lines = content.split(/\r?\n/);
+        
+        for (const line of lines) {
+            // Skip empty lines and comments
+            if (!line.trim() || line.trim().startsWith('#')) continue;
+            
+            // Regular expression rules may legitimately contain separators
+            if (/^(@@)?\/.+\/$/.test(line.trim())) {
+                keywords.push(line.trim());
+                continue;
+            }
+            
+            // Check if the line has common separators (comma, tab, semicolon)
+            if (line.includes(',') || line.includes('\t') || line.includes(';')) {
+                // Split by common separators
+                const parts = line.split(/[,\t;]+/);
+                
+                for (const part of parts) {
+                    const trimmed = part.trim();
+                    if (trimmed) keywords.push(trimmed);
+                }
+            } else {
+                // Just add the whole line as a keyword
+                keywords.push(line.trim());
+            }
+        }
+        
+        // Remove duplicates
+        return [...new Set(keywords)];
+    }
+    
+    // Like parseBlocklist, but also keeps turned-off entries (as "# off: entry")
+    private parseBlocklistItems(content: string): string[] {
+        const items: string[] = [];
+        for (const line of content.split(/\r?\n/)) {
+            const disabled = parseDisabledEntry(line);
+            items.push(...(disabled ? [DISABLED_ENTRY_PREFIX + disabled] : this.parseBlocklist(line)));
+        }
+        return [...new Set(items)];
+    }
+    
+    // RULE TABLE FUNCTIONS
+    
+    // Rows for the rule table in the settings tab
+    getBlocklistRows(): BlocklistRow[] {
+        return analyzeBlocklist(this.settings.blocklistContent, content => this.parseBlocklist(content));
+    }
+    
+    // Check whether nuclear mode keeps an entry from being changed in the rule table:
+    // turning off or removing blocking rules, and turning on exceptions
+    isEntryLocked(entry: string, enabled: boolean): boolean {
+        return this.settings.nuclearActive && enabled !== isExceptionEntry(entry);
+    }
+    
+    // Turn blocklist entries on or off; returns false if the change was refused
+    async setEntriesEnabled(entries: string[], enabled: boolean): Promise<boolean> {
+        const lines: string[] = [];
+        for (const line of this.settings.blocklistContent.split(/\r?\n/)) {
+            const disabled = parseDisabledEntry(line);
+            if (disabled !== null) {
+                lines.push(enabled && entries.includes(disabled) ? disabled : line);
+                continue;
+            }
+            
+            const lineEntries = line.trim().startsWith('#') ? [] : this.parseBlocklist(line);
+            const turnedOff = enabled ? [] : lineEntries.filter(entry => entries.includes(entry));
+            if (turnedOff.length === 0) {
+                lines.push(line);
+                continue;
+            }
+            
+            // Split the turned-off entries out of lines holding several entries
+            const kept = lineEntries.filter(entry => !turnedOff.includes(entry));
+            if (kept.length > 0) lines.push(kept.join(', '));
+            lines.push(...turnedOff.map(entry => DISABLED_ENTRY_PREFIX + entry));
+        }
+        
+        const count = entries.length;
+        const action = enabled
+            ? `Turn on ${count === 1 ? entries[0] : count + ' entries'}`
+            : `Turn off ${count === 1 ? entries[0] : count + ' entries'}`;
+        return this.updateBlocklistContent(lines.join('\n'), action);
+    }
+    
+    // Delete blocklist entries, whether they are on or off; returns false if the change was refused
+    async removeBlocklistEntries(entries: string[]): Promise<boolean> {
+        const lines: string[] = [];
+        for (const line of this.settings.blocklistContent.split(/\r?\n/)) {
+            const disabled = parseDisabledEntry(line);
+            const lineEntries = disabled !== null ? [disabled]
+                : line.trim().startsWith('#') ? [] : this.parseBlocklist(line);
+            const kept = lineEntries.filter(entry => !entries.includes(entry));
+            
+            if (kept.length === lineEntries.length) {
+                lines.push(line);
+            } else if (kept.length > 0) {
+                lines.push(kept.join(', '));
+            }
+        }
+        
+        const count = entries.length;
+        if (!await this.updateBlocklistContent(lines.join('\n'),
+            `Remove ${count === 1 ? entries[0] : count + ' entries'} from the blocklist`)) {
+            return false;
+        }
+        
+        for (const entry of entries) {
+            delete this.settings.entryNotes[entry];
+        }
+        await this.saveSettings();
+        return true;
+    }
+    
+    // Save a note for a blocklist entry, or clear it with an empty note
+    async setEntryNote(entry: string, note: string) {
+        if (note.trim()) {
+            this.settings.entryNotes[entry] = note.trim();
+        } else {
+            delete this.settings.entryNotes[entry];
+        }
+        await this.saveSettings();
+    }
+    
+    // Replace the blocklist after a change made in the rule table. Unlike the text editor,
+    // changes that nuclear mode protects against are refused outright rather than merged
+    private async updateBlocklistContent(content: string, action: string): Promise<boolean> {
+        const removed = this.getRemovedEntries(this.settings.blocklistContent, content);
+        const oldEntries = this.parseBlocklist(this.settings.blocklistContent);
+        const addedExceptions = this.parseBlocklist(content)
+            .filter(entry => isExceptionEntry(entry) && !oldEntries.includes(entry));
+        
+        if (this.settings.nuclearActive && (removed.length > 0 || addedExceptions.length > 0)) {
+            new Notice('Locked entries cannot be removed or turned off, and exceptions cannot be turned on, during nuclear mode');
+            return false;
+        }
+        
+        if (!this.settings.nuclearActive && removed.length > 0 && !await this.requestUnlock(action)) {
+            return false;
+        }
+        
+        this.settings.blocklistContent = content;
+        await this.saveSettings();
+        await this.saveBlocklist();
+        return true;
+    }
+    
+    // BLOCKLIST NOTE FUNCTIONS
+    
+    // Load the blocklist from the configured note, creating the note if it doesn't exist
+    private async loadBlocklistNote() {
+        const notePath = this.settings.blocklistNotePath;
+        
+        if (!await this.app.vault.adapter.exists(notePath)) {
+            await this.writeBlocklistNote();
+        } else {
+            const markdown = await this.app.vault.adapter.read(notePath);
+            this.settings.blocklistContent = parseBlocklistNote(markdown);
+            await this.saveSettings();
+        }
+        
+        this.rules = this.parseRules(this.settings.blocklistContent);
+    }
+    
+    // Write the current blocklist entries into the note, leaving it untouched if nothing changed
+    private async writeBlocklistNote() {
+        const notePath = this.settings.blocklistNotePath;
+        const exists = await this.app.vault.adapter.exists(notePath);
+        const markdown = exists ? await this.app.vault.adapter.read(notePath) : '# Blocklist\n\n';
+        const entries = this.parseBlocklistItems(this.settings.blocklistContent);
+        const updated = updateBlocklistNote(markdown, entries, content => this.parseBlocklistItems(content));
+        
+        if (!exists || updated !== markdown) {
+            await this.app.vault.adapter.write(notePath, updated);
+        }
+    }
+    
+    // Wait for a pause in typing, since Obsidian saves the note every few seconds while it is edited
+    private scheduleBlocklistNoteCheck() {
+        // An open unlock prompt checks the note again once it closes
+        if (this.noteUnlockOpen) return;
+        
+        window.clearTimeout(this.noteModifyTimerId);
+        this.noteModifyTimerId = window.setTimeout(() => {
+            this.noteModifyTimerId = 0;
+            this.onBlocklistNoteModified();
+        }, 3000);
+    }
+    
+    // Apply edits made directly to the blocklist note
+    private async onBlocklistNoteModified() {
+        const markdown = await this.app.vault.adapter.read(this.settings.blocklistNotePath);
+        let content = parseBlocklistNote(markdown);
+        
+        // Ignore our own writes and edits that don't change any entries
+        const entries = this.parseBlocklist(content);
+        const currentEntries = this.parseBlocklist(this.settings.blocklistContent);
+        if (entries.join('\n') === currentEntries.join('\n')) return;
+        
+        // Removing entries outside nuclear mode may have to get past the friction checks
+        const removed = this.getRemovedEntries(this.settings.blocklistContent, content);
+        if (!this.settings.nuclearActive && removed.length > 0) {
+            this.noteUnlockOpen = true;
+            let unlocked: boolean;
+            try {
+                unlocked = await this.requestUnlock(`Remove ${removed.join(', ')} from the blocklist`);
+            } finally {
+                this.noteUnlockOpen = false;
+            }
+            
+            if (!unlocked) {
+                // Put the removed entries back into the note
+                await this.saveBlocklist();
+                return;
+            }
+            
+            // Take in anything typed while the prompt was open, but keep entries removed
+            // in the meantime until they get past the checks too
+            const latest = parseBlocklistNote(await this.app.vault.adapter.read(this.settings.blocklistNotePath));
+            const unapproved = this.getRemovedEntries(this.settings.blocklistContent, latest)
+                .filter(entry => !removed.includes(entry));
+            content = [latest, ...unapproved].join('\n');
+        }
+        
+        // Saving enforces nuclear mode and writes any reverted entries back to the note
+        this.settings.blocklistContent = content;
+        await this.saveBlocklist();
+        await this.saveSettings();
+    }
+    
+    // Switch the blocklist to a vault note, or back to the data file when the path is empty;
+    // returns false if adopting the note's entries didn't get past the friction checks
+    async setBlocklistNote(notePath: string): Promise<boolean> {
+        notePath = notePath.trim();
+        if (notePath && !notePath.endsWith('.md')) {
+            notePath += '.md';
+        }
+        
+        if (notePath && await this.app.vault.adapter.exists(notePath)) {
+            // Adopt the entries already in the note; nuclear mode restores any protected ones
+            const markdown = await this.app.vault.adapter.read(notePath);
+            const content = parseBlocklistNote(markdown);
+            
+            // Entries missing from the note would be removed, which may have to get past the friction checks
+            const removed = this.getRemovedEntries(this.settings.blocklistContent, content);
+            if (!this.settings.nuclearActive && removed.length > 0 &&
+                !await this.requestUnlock(`Remove ${removed.join(', ')} from the blocklist`)) {
+                return false;
+            }
+            
+            this.settings.blocklistNotePath = notePath;
+            this.settings.blocklistContent = content;
+        } else {
+            // Start the note (or the data file) from the current entries
+            this.settings.blocklistNotePath = notePath;
+        }
+        
+        await this.saveBlocklist();
+        await this.saveSettings();
+        return true;
+    }
+    
+    // Append entries to the blocklist, skipping ones already present; returns how many were added
+    async addBlocklistEntries(entries: string[]): Promise<number> {
+        const existing = this.parseBlocklist(this.settings.blocklistContent);
+        const newEntries = [...new Set(entries.map(entry => entry.trim()))]
+            .filter(entry => entry && !existing.includes(entry));
+        
+        if (newEntries.length === 0) return 0;
+        
+        const content = this.settings.blocklistContent.replace(/\s*$/, '');
+        this.settings.blocklistContent = (content ? content + '\n' : '') + newEntries.join('\n');
+        await this.saveSettings();
+        await this.saveBlocklist();
+        
+        // Nuclear mode may have dropped entries that would loosen blocking
+        const saved = this.parseBlocklist(this.settings.blocklistContent);
+        return newEntries.filter(entry => saved.includes(entry)).length;
+    }
+    
+    // Parse blocklist content into structured rules
+    parseRules(content: string): BlockRule[] {
+        const rules: BlockRule[] = [];
+        for (const entry of this.parseBlocklist(content)) {
+            const rule = parseRule(entry);
+            if (rule) rules.push(rule);
+        }
+        
+        // Enabled presets are matched alongside the user's own entries
+        const own = new Set(rules.map(rule => rule.raw));
+        for (const preset of this.getEnabledPresets()) {
+            for (const entry of preset.entries) {
+                const rule = own.has(entry) ? null : parseRule(entry);
+                if (rule) rules.push({ ...rule, raw: `${entry} (${preset.name} preset)` });
+            }
+        }
+        return rules;
+    }
+    
+    // PRESET FUNCTIONS
+    
+    getEnabledPresets(): BlocklistPreset[] {
+        return BLOCKLIST_PRESETS.filter(preset => preset.id in this.settings.enabledPresets);
+    }
+    
+    // Turn a category preset on or off; returns false if the change is not allowed
+    async setPresetEnabled(id: string, enabled: boolean): Promise<boolean> {
+        const preset = BLOCKLIST_PRESETS.find(preset => preset.id === id);
+        if (!preset) return false;
+        
+        if (!enabled) {
+            // Presets count as protected entries during nuclear mode
+            if (this.settings.nuclearActive) {
+                new Notice('Cannot turn off presets during nuclear mode');
+                return false;
+            }
+            if (!await this.requestUnlock(`Turn off the ${preset.name} preset`)) {
+                return false;
+            }
+            delete this.settings.enabledPresets[id];
+        } else {
+            this.settings.enabledPresets[id] = preset.version;
+        }
+        
+        this.rules = this.parseRules(this.settings.blocklistContent);
+        await this.saveSettings();
+        if (this.settings.nuclearActive) {
+            await this.saveNuclearSnapshot();
+        }
+        return true;
+    }
+    
+    // Record the versions of enabled presets, mentioning any that were updated
+    private async checkPresetUpdates() {
+        const updated = this.getEnabledPresets().filter(preset => this.settings.enabledPresets[preset.id] < preset.version);
+        if (updated.length === 0) return;
+        
+        for (const preset of updated) {
+            this.settings.enabledPresets[preset.id] = preset.version;
+        }
+        await this.saveSettings();
+        new Notice(`Updated blocklist presets: ${updated.map(preset => preset.name).join(', ')}`);
+    }
+    
+    // Check whether an exception rule allows a URL
+    isExcepted(url: string): boolean {
+        const context = buildUrlMatchContext(url);
+        return !!context && this.rules.some(rule => rule.exception && ruleMatches(rule, context));
+    }
+    
+    // Find the first rule that matches a URL or any destination it redirects to, if any
+    findMatchingRule(url: string): BlockRule | null {
+        for (const step of getUrlCandidates(url).map(candidate => this.checkUrlStep(candidate))) {
+            // Exceptions take precedence over any blocking rule
+            if (step.exceptions.length === 0 && step.matches.length > 0) {
+                return step.matches[0].rule;
+            }
+        }
+        return null;
+    }
+    
+    // Find every rule and exception that matches a single URL
+    private checkUrlStep(url: string): UrlCheckStep {
+        const context = buildUrlMatchContext(url);
+        const matches: RuleMatch[] = [];
+        const exceptions: RuleMatch[] = [];
+        
+        for (const rule of this.rules) {
+            let location: string | null;
+            if (context) {
+                location = findMatchLocation(rule, context);
+            } else {
+                // Unparseable input can still be checked against plain keywords
+                location = rule.type === 'keyword' && url.toLowerCase().includes(rule.pattern) ? 'text' : null;
+            }
+            
+            if (location) {
+                (rule.exception ? exceptions : matches).push({ rule, location });
+            }
+        }
+        
+        return { url, context, matches, exceptions };
+    }
+    
+    // Explain how a URL is checked and what would happen to it, using the same checks as navigation
+    diagnoseUrl(url: string): UrlDiagnosis {
+        const steps = getUrlCandidates(url).map(candidate => this.checkUrlStep(candidate));
+        const rule = this.getBlockingRule(url);
+        const budgets = this.getMatchingBudgets(url).map(budget => ({ budget, remaining: this.getBudgetRemaining(budget) }));
+        const enabled = this.settings.isEnabled;
+        const pass = this.findSnoozePass(url);
+        
+        let decision: string;
+        if (rule) {
+            decision = enabled ? `Blocked by ${rule.raw}` : `Allowed, because blocking is turned off. It would be blocked by ${rule.raw}`;
+        } else if (steps.some(step => step.exceptions.length > 0 && step.matches.length > 0)) {
+            decision = 'Allowed by an exception';
+        } else if (pass) {
+            decision = `Allowed by a snooze pass for ${pass.domain} until ${this.formatDateForDisplay(new Date(pass.until))}`;
+        } else {
+            decision = 'Allowed: no rule matches';
+        }
+        
+        return { url, enabled, steps, budgets, rule, decision };
+    }
+
+    // Turn blocking on or off; returns false if the change is not allowed
+    async setBlockingEnabled(enabled: boolean): Promise<boolean> {
+        // Only allow disabling if nuclear mode is not active
+        if (!enabled && this.settings.nuclearActive) {
+            new Notice('Cannot disable blocking during nuclear mode');
+            return false;
+        }
+        
+        // Outside nuclear mode, disabling may still have to get past the friction checks
+        if (!enabled && !await this.requestUnlock('Turn off URL blocking')) {
+            return false;
+        }
+        
+        this.settings.isEnabled = enabled;
+        await this.saveSettings();
+        
+        // Start or stop monitoring based on the setting
+        if (enabled) {
+            this.startMonitoring();
+        } else {
+            this.stopMonitoring();
+        }
+        return true;
+    }
+    
+    // Get the URL of the focused web viewer tab, if any
+    getActiveWebViewerUrl(): string | null {
+        const leaf = this.app.workspace.getMostRecentLeaf();
+        if (!leaf || leaf.view.getViewType() !== WEBVIEWER_VIEW_TYPE) return null;
+        
+        const inputElement = leaf.view.containerEl.querySelector('.webviewer-address input') as HTMLInputElement | null;
+        return inputElement && inputElement.value ? inputElement.value : null;
+    }
+    
+    // Open the plugin's settings tab
+    openSettingsTab() {
+        const setting = (this.app as App & { setting?: { open(): void; openTabById(id: string): void } }).setting;
+        if (setting) {
+            setting.open();
+            setting.openTabById(this.manifest.id);
+        }
+    }
+
+    startMonitoring() {
+        if (this.monitoring) return;
+        this.monitoring = true;
+        this.lastCheckedUrls = new WeakMap();
+        
+        // Catch web viewers that appear without a workspace event, e.g. while the layout loads,
+        // and embedded pages added outside the markdown renderer, e.g. by live preview or embed plugins
+        this.mutationObserver = new MutationObserver((mutations) => {
+            let hasNewWebviewer = false;
+            for (const mutation of mutations) {
+                if (mutation.type === 'attributes') {
+                    if (mutation.target instanceof HTMLElement) this.blockEmbeds(mutation.target);
+                    continue;
+                }
+                for (const node of Array.from(mutation.addedNodes)) {
+                    if (!(node instanceof HTMLElement)) continue;
+                    hasNewWebviewer = hasNewWebviewer ||
+                        node.matches('webview, .webviewer-address') || !!node.querySelector('webview, .webviewer-address');
+                    this.blockEmbeds(node);
+                }
+            }
+            if (hasNewWebviewer) {
+                this.checkAllWebViewerAddresses();
+            }
+        });
+        this.mutationObserver.observe(document.body, { childList: true, subtree: true, attributes: true, attributeFilter: ['src', 'data'] });
+        
+        // Check whatever is already open
+        this.app.workspace.onLayoutReady(() => this.checkAllWebViewerAddresses());
+    }
+
+    stopMonitoring() {
+        this.monitoring = false;
+        
+        if (this.mutationObserver) {
+            this.mutationObserver.disconnect();
+            this.mutationObserver = null;
+        }
+    }
+
+    checkAllWebViewerAddresses() {
+        if (!this.monitoring) return;
+        
+        for (const leaf of this.app.workspace.getLeavesOfType(WEBVIEWER_VIEW_TYPE)) {
+            const containerEl = leaf.view.containerEl;
+            
+            // Listen for navigation on each webview once
+            const webview = containerEl.querySelector('webview') as WebviewElement | null;
+            if (webview && !this.watchedWebviews.has(webview)) {
+                this.watchedWebviews.add(webview);
+                this.watchWebview(webview);
+            }
+            
+            // Check the page the tab is currently showing
+            const inputElement = containerEl.querySelector('.webviewer-address input') as HTMLInputElement | null;
+            if (inputElement && inputElement.value) {
+                this.checkNavigation(inputElement.value, webview || inputElement);
+            }
+        }
+        
+        // Browser views from other plugins, such as Surfing, are watched the same way
+        this.app.workspace.iterateAllLeaves(leaf => {
+            const viewType = leaf.view.getViewType();
+            if (viewType === WEBVIEWER_VIEW_TYPE || viewType === BLOCKED_VIEW_TYPE) return;
+            
+            leaf.view.containerEl.querySelectorAll('webview').forEach(element => {
+                const webview = element as WebviewElement;
+                
+                // Webviews embedded in notes get a placeholder instead
+                if (webview.closest(NOTE_CONTENT_SELECTOR) || this.watchedWebviews.has(webview)) return;
+                
+                this.watchedWebviews.add(webview);
+                this.watchWebview(webview);
+                
+                const src = webview.getAttribute('src');
+                if (src) {
+                    this.checkNavigation(src, webview);
+                }
+            });
+        });
+    }
+    
+    // Replace blocked iframes, embeds and webviews inside an element with a placeholder naming the rule
+    private blockEmbeds(root: HTMLElement) {
+        if (!this.settings.isEnabled) return;
+        
+        const elements = root.matches(EMBED_SELECTOR) ? [root] : Array.from(root.querySelectorAll<HTMLElement>(EMBED_SELECTOR));
+        for (const element of elements) {
+            // Webviews that make up a whole view are checked as they navigate instead
+            if (element.tagName === 'WEBVIEW' && element.isConnected && !element.closest(NOTE_CONTENT_SELECTOR)) continue;
+            
+            // Protocol-relative sources are loaded over https
+            const source = element.getAttribute(element.tagName === 'OBJECT' ? 'data' : 'src') || '';
+            const url = source.startsWith('//') ? 'https:' + source : source;
+            if (!/^https?:\/\//i.test(url)) continue;
+            
+            const rule = this.getBlockingRule(url);
+            if (!rule || !element.parentNode) continue;
+            
+            const placeholder = createDiv({ cls: 'web-blocker-embed-placeholder' });
+            placeholder.createEl('strong', { text: 'Embedded page blocked' });
+            placeholder.createDiv({ text: url, cls: 'web-blocker-embed-url' });
+            placeholder.createDiv({ text: `Blocked by rule: ${rule.raw}` });
+            element.replaceWith(placeholder);
+            
+            // Live preview renders embeds again on every edit, so log each embed once a minute at most
+            const lastLogged = this.embedBlockTimes.get(url) || 0;
+            if (Date.now() - lastLogged > 60000) {
+                this.embedBlockTimes.set(url, Date.now());
+                this.logBlockEvent(url, rule, 'embed');
+                this.app.workspace.trigger(BLOCKED_EVENT, url, rule);
+            }
+        }
+    }
+    
+    // Check every navigation a webview makes, as early as Electron reports it
+    private watchWebview(webview: WebviewElement) {
+        const events = ['did-start-navigation', 'will-navigate', 'did-redirect-navigation', 'did-navigate', 'did-navigate-in-page'];
+        
+        for (const eventName of events) {
+            webview.addEventListener(eventName, (event: Event) => {
+                const { url, isMainFrame } = event as Event & { url?: string; isMainFrame?: boolean };
+                
+                // Ignore navigations inside iframes on the page
+                if (!url || isMainFrame === false) return;
+                
+                this.checkNavigation(url, webview);
+            });
+        }
+        
+        // Page title and text can only be checked once the page has loaded
+        webview.addEventListener('did-finish-load', () => {
+            this.checkPageContent(webview);
+        });
+    }
+    
+    // Check the loaded page in a webview against title: and content: rules, if enabled
+    private async checkPageContent(webview: WebviewElement) {
+        const mode = this.settings.pageInspection;
+        if (!this.monitoring || !this.settings.isEnabled || mode === 'off') return;
+        
+        const pageRules = this.rules.filter(rule =>
+            rule.type === 'title' || (rule.type === 'content' && mode === 'text'));
+        if (!pageRules.some(rule => !rule.exception)) return;
+        
+        const leaf = this.getLeafForElement(webview);
+        const url = webview.getURL();
+        if (!leaf || !url || this.isExcepted(url)) return;
+        
+        // A snooze pass allows the whole page, whatever it says
+        if (this.findSnoozePass(url)) return;
+        
+        const title = normalizeText(webview.getTitle() || '');
+        let text = '';
+        if (pageRules.some(rule => rule.type === 'content')) {
+            try {
+                const bodyText = await webview.executeJavaScript('document.body ? document.body.innerText : ""');
+                text = title + ' ' + normalizeText(String(bodyText || ''));
+            } catch (error) {
+                console.error('Failed to read page text:', error);
+            }
+        }
+        
+        // The tab may have moved on while the text was being read
+        if (webview.getURL() !== url) return;
+        
+        const threshold = this.settings.pageTextThreshold;
+        if (pageRules.some(rule => rule.exception && pageRuleMatches(rule, title, text, threshold))) return;
+        
+        const rule = pageRules.find(rule => !rule.exception && pageRuleMatches(rule, title, text, threshold));
+        if (rule) {
+            this.blockLeaf(leaf, url, rule);
+        }
+    }
+    
+    // Check a URL reported for a web viewer, skipping repeats of the same navigation
+    private checkNavigation(url: string, element: HTMLElement) {
+        if (!this.monitoring || this.lastCheckedUrls.get(element) === url) return;
+        this.lastCheckedUrls.set(element, url);
+        
+        // Only act on the tab that owns this web viewer
+        const leaf = this.getLeafForElement(element);
+        if (leaf) {
+            this.checkUrlForStrings(url, leaf);
+        }
+    }
+
+    checkUrlForStrings(url: string, leaf: WorkspaceLeaf) {
+        // Skip checks if blocking is disabled
+        if (!this.settings.isEnabled) return;
+        
+        const rule = this.getBlockingRule(url);
+        if (rule) {
+            this.blockLeaf(leaf, url, rule);
+        } else {
+            // Remember the last page this tab was allowed to show
+            this.lastAllowedUrls.set(leaf, url);
+            
+            // Start counting time on budgeted pages
+            if (this.getMatchingBudgets(url).length > 0) {
+                this.startBudgetTimer();
+            }
+        }
+    }
+    
+    // Get the blocklist rule or used-up budget that blocks a URL, if any; the navigation checks,
+    // the API and the diagnostics panel all decide through this
+    getBlockingRule(url: string): BlockRule | null {
+        if (this.findSnoozePass(url)) return null;
+        return this.findMatchingRule(url) || this.findExhaustedBudgetRule(url);
+    }
+    
+    // Apply the configured block action to a single web viewer tab
+    blockLeaf(leaf: WorkspaceLeaf, url: string, rule: BlockRule) {
+        const webview = leaf.view.containerEl.querySelector('webview') as WebviewElement | null;
+        
+        switch (this.settings.blockAction) {
+            case 'back':
+                // Return to the previous page, or close the tab if there is none
+                if (webview && webview.canGoBack()) {
+                    webview.goBack();
+                } else {
+                    leaf.detach();
+                }
+                break;
+            case 'blockScreen': {
+                // Replace the web viewer with the block screen view
+                const state: BlockedViewState = {
+                    url,
+                    rule: rule.raw,
+                    previousUrl: this.lastAllowedUrls.get(leaf) || ''
+                };
+                leaf.setViewState({ type: BLOCKED_VIEW_TYPE, state });
+                break;
+            }
+            default:
+                leaf.detach();
+        }
+        
+        this.logBlockEvent(url, rule);
+        this.app.workspace.trigger(BLOCKED_EVENT, url, rule);
+    }
+    
+    // SNOOZE FUNCTIONS
+    
+    // Snooze passes used today, starting a new day at the budget reset time
+    getSnoozePassesUsed(): number {
+        const period = getBudgetPeriod(new Date(), this.settings.budgetResetTime);
+        if (this.settings.snoozeUsage.period !== period) {
+            this.settings.snoozeUsage = { period, used: 0 };
+        }
+        return this.settings.snoozeUsage.used;
+    }
+    
+    // The domain a snooze pass would allow for a URL, or null if snoozing isn't available right now
+    getSnoozeDomain(url: string): string | null {
+        if (this.settings.nuclearActive || !(this.settings.snoozeMinutes > 0)) return null;
+        if (this.getSnoozePassesUsed() >= this.settings.snoozeDailyLimit) return null;
+        
+        const context = buildUrlMatchContext(url);
+        return context && context.host ? context.host : null;
+    }
+    
+    getActiveSnoozePasses(): SnoozePass[] {
+        return this.settings.snoozePasses.filter(pass => pass.until > Date.now());
+    }
+    
+    // The pass that allows a URL right now, if any; passes never apply during nuclear mode
+    findSnoozePass(url: string): SnoozePass | null {
+        if (this.settings.nuclearActive) return null;
+        
+        const passes = this.getActiveSnoozePasses();
+        if (passes.length === 0) return null;
+        
+        const context = buildUrlMatchContext(url);
+        return context ? passes.find(pass => hostMatchesDomain(context.host, pass.domain)) || null : null;
+    }
+    
+    // Use a snooze pass to allow the domain of a blocked URL; returns false if none could be used
+    async snoozeUrl(url: string): Promise<boolean> {
+        const domain = this.getSnoozeDomain(url);
+        if (!domain) {
+            new Notice(this.settings.nuclearActive
+                ? 'Snoozing is not available during nuclear mode'
+                : 'No snooze passes left today');
+            return false;
+        }
+        
+        const minutes = this.settings.snoozeMinutes;
+        if (!await this.requestUnlock(`Allow ${domain} for ${minutes} minutes`)) {
+            return false;
+        }
+        
+        // Nuclear mode may have started while the friction checks were open
+        if (!this.getSnoozeDomain(url)) return false;
+        
+        this.settings.snoozeUsage.used++;
+        this.settings.snoozePasses = [
+            ...this.getActiveSnoozePasses().filter(pass => pass.domain !== domain),
+            { domain, until: Date.now() + minutes * 60000 }
+        ];
+        await this.saveSettings();
+        
+        const { used } = this.settings.snoozeUsage;
+        await this.logAuditEvent('snooze', `Allowed ${domain} for ${minutes} minutes (pass ${used} of ${this.settings.snoozeDailyLimit} today)`);
+        new Notice(`${domain} is allowed for ${minutes} minutes`);
+        
+        this.scheduleSnoozeExpiry();
+        return true;
+    }
+    
+    // End a snooze pass early
+    async revokeSnoozePass(domain: string) {
+        this.settings.snoozePasses = this.getActiveSnoozePasses().filter(pass => pass.domain !== domain);
+        await this.saveSettings();
+        await this.logAuditEvent('snooze-revoked', `Revoked the snooze pass for ${domain}`);
+        
+        this.recheckOpenPages();
+        this.scheduleSnoozeExpiry();
+    }
+    
+    // Re-check open pages when the next snooze pass expires
+    private scheduleSnoozeExpiry() {
+        if (this.snoozeTimerId) {
+            window.clearTimeout(this.snoozeTimerId);
+            this.snoozeTimerId = 0;
+        }
+        
+        const passes = this.getActiveSnoozePasses();
+        if (passes.length < this.settings.snoozePasses.length) {
+            // Forget passes that have expired
+            this.settings.snoozePasses = passes;
+            this.saveSettings();
+        }
+        if (passes.length === 0) return;
+        
+        const nextExpiry = Math.min(...passes.map(pass => pass.until));
+        this.snoozeTimerId = window.setTimeout(() => {
+            this.snoozeTimerId = 0;
+            this.recheckOpenPages();
+            this.scheduleSnoozeExpiry();
+        }, nextExpiry - Date.now() + 1000);
+    }
+    
+    // Check the pages open in web viewers again, e.g. after a pass ended
+    private recheckOpenPages() {
+        this.lastCheckedUrls = new WeakMap();
+        this.checkAllWebViewerAddresses();
+    }
+    
+    // EXTERNAL LINK FUNCTIONS
+    
+    // Hook the ways Obsidian opens http(s) links outside the web viewer
+    private interceptExternalLinks() {
+        // Link clicks in reading view, live preview and anywhere else in the app
+        const onClick = (event: MouseEvent) => {
+            const target = event.target as HTMLElement | null;
+            const link = target ? target.closest('a[href]') as HTMLAnchorElement | null : null;
+            if (link && this.checkExternalLink(link.href)) {
+                event.preventDefault();
+                event.stopPropagation();
+            }
+        };
+        this.registerDomEvent(document, 'click', onClick, { capture: true });
+        this.registerDomEvent(document, 'auxclick', onClick, { capture: true });
+        
+        // Obsidian opens external links (including bare URLs in live preview) through window.open
+        const originalOpen = window.open;
+        window.open = (...args: Parameters<typeof window.open>) => {
+            if (args[0] && this.checkExternalLink(String(args[0]))) return null;
+            return originalOpen.apply(window, args);
+        };
+        this.register(() => {
+            window.open = originalOpen;
+        });
+        
+        // Plugins and parts of Obsidian that hand http(s) links straight to the system browser
+        let shell: ElectronShell | undefined;
+        try {
+            shell = (window as WindowWithRequire).require?.('electron').shell;
+        } catch (error) {
+            // Electron isn't available
+        }
+        if (shell) {
+            const electronShell = shell;
+            const originalOpenExternal = electronShell.openExternal;
+            electronShell.openExternal = (url: string, ...options: unknown[]) => {
+                if (this.checkExternalLink(url)) return Promise.resolve();
+                return originalOpenExternal.call(electronShell, url, ...options);
+            };
+            this.register(() => {
+                electronShell.openExternal = originalOpenExternal;
+            });
+        }
+    }
+    
+    // Check a link about to open outside the web viewer; returns true if it was blocked
+    private checkExternalLink(url: string): boolean {
+        if (!this.settings.interceptExternalLinks || !this.settings.isEnabled) return false;
+        if (!/^https?:\/\//i.test(url)) return false;
+        
+        const rule = this.getBlockingRule(url);
+        if (!rule) return false;
+        
+        if (this.settings.blockAction === 'blockScreen') {
+            // Show the block screen in a new tab instead of opening the link
+            const state: BlockedViewState = { url, rule: rule.raw, previousUrl: '' };
+            this.app.workspace.getLeaf(true).setViewState({ type: BLOCKED_VIEW_TYPE, state, active: true });
+            this.logBlockEvent(url, rule);
+        } else {
+            // Offer a snooze pass right in the notice
+            const message = createFragment();
+            message.appendText(`Blocked ${url} (rule: ${rule.raw})`);
+            if (this.getSnoozeDomain(url)) {
+                const snoozeButton = message.createEl('button', { text: `Allow for ${this.settings.snoozeMinutes} min`, cls: 'web-blocker-notice-button' });
+                snoozeButton.addEventListener('click', async (event) => {
+                    event.stopPropagation();
+                    if (await this.snoozeUrl(url)) {
+                        window.open(url);
+                    }
+                });
+            }
+            new Notice(message, 8000);
+            this.logBlockEvent(url, rule, 'notice');
+        }
+        this.app.workspace.trigger(BLOCKED_EVENT, url, rule);
+        return true;
+    }
+    
+    // Find the workspace leaf whose view contains the given element
+    getLeafForElement(element: Element): WorkspaceLeaf | null {
+        let owner: WorkspaceLeaf | null = null;
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (!owner && leaf.view.containerEl.contains(element)) {
+                owner = leaf;
+            }
+        });
+        return owner;
+    }
+    
+    // TIME BUDGET FUNCTIONS
+    
+    // Get the budgets whose rule matches a URL (none if an exception allows it)
+    getMatchingBudgets(url: string): TimeBudget[] {
+        const context = buildUrlMatchContext(url);
+        if (!context || this.isExcepted(url)) return [];
+        
+        return this.settings.timeBudgets.filter(budget => {
+            const rule = parseRule(budget.pattern);
+            return !!rule && !rule.exception && ruleMatches(rule, context);
+        });
+    }
+    
+    // Milliseconds of a budget used in the current period, starting a new period if one is due
+    getBudgetUsed(budget: TimeBudget): number {
+        const period = getBudgetPeriod(new Date(), this.settings.budgetResetTime);
+        if (this.settings.budgetUsage.period !== period) {
+            this.settings.budgetUsage = { period, used: {} };
+        }
+        return this.settings.budgetUsage.used[budget.pattern] || 0;
+    }
+    
+    // Milliseconds of a budget left in the current period
+    getBudgetRemaining(budget: TimeBudget): number {
+        return Math.max(0, budget.minutes * 60000 - this.getBudgetUsed(budget));
+    }
+    
+    // Build a rule describing a used-up budget that matches the URL, if there is one
+    private findExhaustedBudgetRule(url: string): BlockRule | null {
+        const budget = this.getMatchingBudgets(url).find(budget => this.getBudgetRemaining(budget) <= 0);
+        const rule = budget ? parseRule(budget.pattern) : null;
+        
+        return budget && rule
+            ? { ...rule, raw: `${budget.pattern} (daily budget of ${budget.minutes} min used up)` }
+            : null;
+    }
+    
+    // Tick once a second while a budgeted page is open
+    private startBudgetTimer() {
+        if (this.budgetTimerId) return;
+        
+        this.lastBudgetTick = Date.now();
+        this.budgetTimerId = window.setInterval(() => this.tickBudgets(), 1000);
+    }
+    
+    private stopBudgetTimer() {
+        if (this.budgetTimerId) {
+            window.clearInterval(this.budgetTimerId);
+            this.budgetTimerId = 0;
+        }
+        this.budgetStatusBarEl.hide();
+        this.saveSettings();
+    }
+    
+    // Add the time since the last tick to every budget with a matching open page
+    private tickBudgets() {
+        const now = Date.now();
+        
+        // Don't count time the computer spent asleep
+        const elapsed = Math.min(now - this.lastBudgetTick, 5000);
+        this.lastBudgetTick = now;
+        
+        if (!this.settings.isEnabled) {
+            this.stopBudgetTimer();
+            return;
+        }
+        
+        // Find the budgeted pages currently open in web viewers
+        const openPages: { leaf: WorkspaceLeaf; url: string; budgets: TimeBudget[] }[] = [];
+        for (const leaf of this.app.workspace.getLeavesOfType(WEBVIEWER_VIEW_TYPE)) {
+            const inputElement = leaf.view.containerEl.querySelector('.webviewer-address input') as HTMLInputElement | null;
+            const url = inputElement ? inputElement.value : '';
+            const budgets = url ? this.getMatchingBudgets(url) : [];
+            if (budgets.length > 0) {
+                openPages.push({ leaf, url, budgets });
+            }
+        }
+        
+        if (openPages.length === 0) {
+            this.stopBudgetTimer();
+            return;
+        }
+        
+        // Charge each budget once, however many of its pages are open
+        const activeBudgets = [...new Set(openPages.flatMap(page => page.budgets))];
+        for (const budget of activeBudgets) {
+            this.settings.budgetUsage.used[budget.pattern] = this.getBudgetUsed(budget) + elapsed;
+        }
+        
+        // Block pages whose budget has run out
+        for (const page of openPages) {
+            const rule = this.findExhaustedBudgetRule(page.url);
+            if (rule) {
+                this.blockLeaf(page.leaf, page.url, rule);
+            }
+        }
+        
+        // Show the budget closest to running out
+        const lowest = activeBudgets.reduce((low, budget) =>
+            this.getBudgetRemaining(budget) < this.getBudgetRemaining(low) ? budget : low);
+        this.budgetStatusBarEl.setText(`${lowest.pattern}: ${formatDuration(this.getBudgetRemaining(lowest))} left`);
+        this.budgetStatusBarEl.show();
+        
+        // Persist usage regularly so restarts don't reset it
+        if (now - this.lastBudgetSave > 30000) {
+            this.lastBudgetSave = now;
+            this.saveSettings();
+        }
+    }
+    
+    // Add a budget; returns false if the pattern is invalid or already has one
+    async addTimeBudget(pattern: string, minutes: number): Promise<boolean> {
+        pattern = pattern.trim();
+        const rule = parseRule(pattern);
+        
+        if (!rule || rule.exception || !(minutes > 0)) {
+            new Notice('Please enter a blocklist rule and a number of minutes');
+            return false;
+        }
+        if (this.settings.timeBudgets.some(budget => budget.pattern === pattern)) {
+            new Notice(`${pattern} already has a budget`);
+            return false;
+        }
+        
+        this.settings.timeBudgets.push({ pattern, minutes });
+        await this.saveSettings();
+        return true;
+    }
+    
+    // Change a budget's daily minutes; raising is refused during nuclear mode
+    async setTimeBudgetMinutes(budget: TimeBudget, minutes: number): Promise<boolean> {
+        if (!(minutes > 0)) return false;
+        
+        if (minutes > budget.minutes && this.settings.nuclearActive) {
+            new Notice('Cannot raise time budgets during nuclear mode');
+            return false;
+        }
+        
+        budget.minutes = minutes;
+        await this.saveSettings();
+        return true;
+    }
+    
+    // Remove a budget; refused during nuclear mode
+    async removeTimeBudget(budget: TimeBudget): Promise<boolean> {
+        if (this.settings.nuclearActive) {
+            new Notice('Cannot remove time budgets during nuclear mode');
+            return false;
+        }
+        
+        this.settings.timeBudgets = this.settings.timeBudgets.filter(other => other !== budget);
+        delete this.settings.budgetUsage.used[budget.pattern];
+        await this.saveSettings();
+        return true;
+    }
+    
+    // FRICTION FUNCTIONS
+    
+    // Check whether any friction checks are turned on
+    hasFriction(): boolean {
+        return this.settings.frictionCountdownSeconds > 0 ||
+            this.settings.frictionTypingWords > 0 ||
+            this.settings.frictionRequireReason;
+    }
+    
+    // Make the user get past the configured friction checks before loosening blocking;
+    // resolves to true if they did, and logs the reason they gave
+    requestUnlock(action: string): Promise<boolean> {
+        if (!this.hasFriction()) return Promise.resolve(true);
+        
+        return new Promise(resolve => {
+            new FrictionModal(this.app, this, action, async (reason) => {
+                if (reason !== null) {
+                    await this.logAuditEvent('unlock', reason ? `${action}. Reason: ${reason}` : action);
+                }
+                resolve(reason !== null);
+            }).open();
+        });
+    }
+    
+    // Entries in the old blocklist that the new one no longer has (removing exceptions doesn't loosen blocking)
+    getRemovedEntries(oldContent: string, newContent: string): string[] {
+        const newEntries = this.parseBlocklist(newContent);
+        return this.parseBlocklist(oldContent).filter(entry => !isExceptionEntry(entry) && !newEntries.includes(entry));
+    }
+    
+    // Read the audit log, newest last
+    async readAuditLog(): Promise<AuditLogEntry[]> {
+        return this.readJsonLines<AuditLogEntry>(this.manifest.dir + '/data/' + this.auditLogFilePath);
+    }
+    
+    // BLOCK LOG FUNCTIONS
+    
+    private getBlockLogPath(): string {
+        return this.manifest.dir + '/data/' + this.blockLogFilePath;
+    }
+    
+    // Record a block in the log and refresh any open dashboards
+    async logBlockEvent(url: string, rule: BlockRule, action: string = this.settings.blockAction) {
+        if (!this.settings.logBlockEvents) return;
+        
+        const entry: BlockLogEntry = {
+            timestamp: Date.now(),
+            url,
+            rule: rule.raw,
+            nuclear: this.settings.nuclearActive,
+            action
+        };
+        
+        try {
+            await this.app.vault.adapter.append(this.getBlockLogPath(), JSON.stringify(entry) + '\n');
+        } catch (error) {
+            console.error("Failed to write block log:", error);
+            return;
+        }
+        
+        this.app.workspace.getLeavesOfType(STATS_VIEW_TYPE).forEach(leaf => {
+            (leaf.view as BlockStatsView).render();
+        });
+    }
+    
+    // Read every entry in the block log, skipping lines that can't be parsed
+    async readBlockLog(): Promise<BlockLogEntry[]> {
+        return this.readJsonLines<BlockLogEntry>(this.getBlockLogPath());
+    }
+    
+    // Read a file with one JSON object per line
+    private async readJsonLines<T>(logPath: string): Promise<T[]> {
+        if (!await this.app.vault.adapter.exists(logPath)) return [];
+        
+        const entries: T[] = [];
+        const data = await this.app.vault.adapter.read(logPath);
+        for (const line of data.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch (error) {
+                // Ignore partially written lines
+            }
+        }
+        return entries;
+    }
+    
+    // Remove entries older than the given number of days (the retention setting by default);
+    // returns how many were removed
+    async pruneBlockLog(days = this.settings.logRetentionDays): Promise<number> {
+        if (!(days > 0)) return 0;
+        
+        try {
+            const entries = await this.readBlockLog();
+            const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+            const kept = entries.filter(entry => entry.timestamp >= cutoff);
+            
+            if (kept.length < entries.length) {
+                await this.app.vault.adapter.write(this.getBlockLogPath(),
+                    kept.map(entry => JSON.stringify(entry) + '\n').join(''));
+            }
+            return entries.length - kept.length;
+        } catch (error) {
+            console.error("Failed to prune block log:", error);
+            return 0;
+        }
+    }
+    
+    // Export the block log to a file in the vault root; returns the path of the file
+    async exportBlockLog(format: 'csv' | 'json'): Promise<string> {
+        const entries = await this.readBlockLog();
+        const content = format === 'csv'
+            ? blockLogToCsv(entries)
+            : JSON.stringify(entries, null, 2);
+        
+        const exportPath = `Web Blocker log ${getDayKey(new Date())}.${format}`;
+        await this.app.vault.adapter.write(exportPath, content);
+        return exportPath;
+    }
+    
+    // Open the statistics dashboard, reusing an existing tab if there is one
+    async openStatsView() {
+        const existing = this.app.workspace.getLeavesOfType(STATS_VIEW_TYPE);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
+        
+        const leaf = this.app.workspace.getLeaf(true);
+        await leaf.setViewState({ type: STATS_VIEW_TYPE, active: true });
+    }
+
+    // NUCLEAR MODE FUNCTIONS
+    
+    // Check if nuclear mode should be active based on current time
+    private checkNuclearStatus(): boolean {
+        // Focus sessions enforce nuclear mode regardless of the schedule
+        if (this.isFocusSessionActive()) return true;
+        
+        // A saved window keeps running even if the schedule was edited outside Obsidian
+        if (this.snapshotWindowEnd > Date.now()) return true;
+        
+        if (!this.settings.nuclearModeEnabled) return false;
+        
+        return getActiveNuclearWindow(this.settings.nuclearSchedule, new Date()) !== null;
+    }
+    
+    // Get the time the current nuclear window or focus session ends, if one is active.
+    // Leave out API sessions to get the end that can't be shortened
+    public getNuclearEndTime(includeApiSession = true): Date | null {
+        const schedule = this.settings.nuclearModeEnabled ? this.settings.nuclearSchedule : [];
+        const window = getActiveNuclearWindow(schedule, new Date());
+        let end = window ? window.end : null;
+        
+        if (this.isFocusSessionActive() && (includeApiSession || this.settings.focusSessionSource !== 'api')) {
+            const focusEnd = new Date(this.settings.focusSessionEnd);
+            if (!end || focusEnd > end) {
+                // A scheduled window may pick up where the session ends
+                const nextWindow = getActiveNuclearWindow(schedule, focusEnd);
+                end = nextWindow ? nextWindow.end : focusEnd;
+            }
+        }
+        
+        // A saved window can outlast the schedule
+        if (this.snapshotWindowEnd > Date.now() && (!end || this.snapshotWindowEnd > end.getTime())) {
+            end = new Date(this.snapshotWindowEnd);
+        }
+        
+        return end;
+    }
+    
+    // Describe whether nuclear mode is active and when it next changes
+    public describeNuclearStatus(): string {
+        if (this.settings.nuclearActive) {
+            const endTime = this.getNuclearEndTime();
+            return endTime
+                ? `Nuclear mode is active until ${this.formatDateForDisplay(endTime)}`
+                : 'Nuclear mode is active';
+        }
+        
+        if (!this.settings.nuclearModeEnabled) {
+            return 'Nuclear mode is not active and no schedule is enabled';
+        }
+        
+        const next = this.getNextNuclearWindow();
+        return next
+            ? `Nuclear mode is not active. Next activation ${this.formatDateForDisplay(next.start)}, released ${this.formatDateForDisplay(next.end)}`
+            : 'Nuclear mode is not active and no windows are scheduled';
+    }
+    
+    // Get the next nuclear window that has not started yet
+    public getNextNuclearWindow(): NuclearWindow | null {
+        return getNextNuclearWindow(this.settings.nuclearSchedule, new Date());
+    }
+    
+    // Start timer to check nuclear status
+    private startNuclearTimer() {
+        // Clear existing timer if any
+        if (this.nuclearTimerId) {
+            window.clearInterval(this.nuclearTimerId);
+        }
+        
+        // Check every minute
+        this.nuclearTimerId = window.setInterval(() => {
+            this.updateNuclearStatus();
+        }, 60000); // Check every minute
+    }
+    
+    // Compare how far the wall clock and the monotonic clock have moved since the last check.
+    // During nuclear mode, changing the system clock or time zone is logged as tampering and
+    // a jump forward pushes the end of enforcement out by the time that was skipped
+    private checkClock() {
+        const previous = this.lastClockReading;
+        const current = readClock();
+        this.lastClockReading = current;
+        
+        if (!this.settings.nuclearActive) return;
+        
+        // DST changes keep the time zone and don't move Date.now(), so they never count
+        if (current.timeZone !== previous.timeZone) {
+            // The saved window end is a timestamp, so the new zone can't shorten the current window
+            this.logAuditEvent('timezone-changed', `The time zone was changed from ${previous.timeZone} to ${current.timeZone} during nuclear mode`);
+            new Notice('The time zone changed during nuclear mode. The current window keeps its end time.');
+        }
+        
+        const jump = (current.wall - previous.wall) - (current.monotonic - previous.monotonic);
+        if (Math.abs(jump) <= CLOCK_JUMP_TOLERANCE) return;
+        
+        const minutes = Math.round(Math.abs(jump) / 60000);
+        if (jump < 0) {
+            // Ends are timestamps, so setting the clock back already makes enforcement last longer
+            this.logAuditEvent('clock-changed', `The system clock was set back by ${minutes} minutes during nuclear mode`);
+            new Notice(`The system clock was set back by ${minutes} minutes. Nuclear mode still ends at ${this.formatDateForDisplay(new Date(this.snapshotWindowEnd))}.`);
+            return;
+        }
+        
+        // Skipped time still has to be served. Systems that pause the monotonic clock during sleep
+        // look the same from here, so time asleep during a window is added on too
+        if (this.snapshotWindowEnd > previous.wall) {
+            this.snapshotWindowEnd += jump;
+        }
+        if (this.settings.focusSessionEnd > previous.wall) {
+            this.settings.focusSessionEnd += jump;
+        }
+        this.saveNuclearSnapshot();
+        
+        this.logAuditEvent('clock-changed', `The system clock jumped forward by ${minutes} minutes during nuclear mode; enforcement was extended to match`);
+        new Notice(`The system clock jumped forward by ${minutes} minutes. Nuclear mode now ends at ${this.formatDateForDisplay(this.getNuclearEndTime() || new Date(this.snapshotWindowEnd))}.`);
+    }
+    
+    // Re-evaluate nuclear status and enforce or release it when it changes
+    private updateNuclearStatus() {
+        // Catch clock changes before trusting the time
+        this.checkClock();
+        
+        const wasActive = this.settings.nuclearActive;
+        this.settings.nuclearActive = this.checkNuclearStatus();
+        
+        let changed = false;
+        
+        // Forget focus sessions that have finished
+        if (this.settings.focusSessionEnd && !this.isFocusSessionActive()) {
+            this.settings.focusSessionEnd = 0;
+            changed = true;
+        }
+        
+        // If status changed
+        if (wasActive !== this.settings.nuclearActive) {
+            if (this.settings.nuclearActive) {
+                // Nuclear mode just activated
+                this.enforceNuclearMode();
+            } else {
+                // Nuclear mode just deactivated
+                this.releaseNuclearMode();
+            }
+            changed = true;
+        }
+        
+        if (changed) {
+            this.saveSettings();
+        }
+        
+        // Keep the snapshot's window and heartbeat current
+        if (this.settings.nuclearActive) {
+            this.saveNuclearSnapshot();
+        }
+    }
+    
+    // FOCUS SESSION FUNCTIONS
+    
+    // Check if a focus session is currently running
+    public isFocusSessionActive(): boolean {
+        return this.settings.focusSessionEnd > Date.now();
+    }
+    
+    // Start a focus session, or extend the current one; sessions can never be shortened
+    public async startFocusSession(minutes: number, source: FocusSessionSource = 'user') {
+        if (!(minutes > 0)) {
+            new Notice('Please enter a focus session length in minutes');
+            return;
+        }
+        
+        // Once the user has started or extended a session, only the user owns it
+        if (source === 'user' || !this.isFocusSessionActive()) {
+            this.settings.focusSessionSource = source;
+        }
+        
+        const end = Date.now() + minutes * 60000;
+        this.settings.focusSessionEnd = Math.max(this.settings.focusSessionEnd, end);
+        
+        // Enter nuclear mode right away if it isn't already active
+        if (!this.settings.nuclearActive) {
+            this.settings.nuclearActive = true;
+            this.enforceNuclearMode();
+        } else {
+            new Notice(`Focus session running until ${this.formatDateForDisplay(new Date(this.settings.focusSessionEnd))}`);
+        }
+        
+        await this.saveSettings();
+        await this.saveNuclearSnapshot();
+        this.startNuclearTimer();
+        this.startFocusCountdown();
+    }
+    
+    // End a focus session that another plugin started; sessions the user started or extended
+    // can't be ended early, and scheduled windows keep running
+    private async stopApiFocusSession(): Promise<boolean> {
+        if (!this.isFocusSessionActive() || this.settings.focusSessionSource !== 'api') {
+            return false;
+        }
+        
+        // The saved window never covers API sessions, so schedule and restored windows keep their end
+        this.settings.focusSessionEnd = 0;
+        await this.saveSettings();
+        await this.logAuditEvent('focus-session-stopped', 'Focus session ended early through the API');
+        
+        // Hide the countdown and release unless a window still enforces nuclear mode
+        this.startFocusCountdown();
+        return true;
+    }
+    
+    // Count down the remaining focus session time in the status bar
+    private startFocusCountdown() {
+        if (this.focusTimerId) {
+            window.clearInterval(this.focusTimerId);
+        }
+        
+        const update = () => {
+            this.checkClock();
+            const remaining = this.settings.focusSessionEnd - Date.now();
+            
+            if (remaining <= 0) {
+                // Session over: hide the countdown and release if nothing else enforces nuclear mode
+                window.clearInterval(this.focusTimerId);
+                this.focusTimerId = 0;
+                this.focusStatusBarEl.hide();
+                this.updateNuclearStatus();
+                return;
+            }
+            
+            const totalSeconds = Math.ceil(remaining / 1000);
+            const hours = Math.floor(totalSeconds / 3600);
+            const minutes = Math.floor((totalSeconds % 3600) / 60);
+            const seconds = totalSeconds % 60;
+            const time = hours > 0
+                ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
+                : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+            
+            this.focusStatusBarEl.setText(`Focus ${time}`);
+            this.focusStatusBarEl.show();
+        };
+        
+        update();
+        if (this.isFocusSessionActive()) {
+            this.focusTimerId = window.setInterval(update, 1000);
+        }
+    }
+    
+    // Enforce nuclear mode restrictions
+    private enforceNuclearMode() {
+        // Store the original blocklist for later comparison
+        this.originalBlocklist = this.settings.blocklistContent;
+        
+        // Measure clock jumps from the start of enforcement
+        this.lastClockReading = readClock();
+        
+        // Snooze passes end as soon as nuclear mode starts
+        if (this.settings.snoozePasses.length > 0) {
+            this.settings.snoozePasses = [];
+            this.recheckOpenPages();
+        }
+        
+        // Force enable blocking if it was disabled
+        if (!this.settings.isEnabled) {
+            this.settings.isEnabled = true;
+            this.startMonitoring();
+        }
+        
+        // Show notification
+        const endTime = this.getNuclearEndTime();
+        const endText = endTime ? ` until ${this.formatDateForDisplay(endTime)}` : '';
+        new Notice(`Nuclear mode activated! Blocking is enforced${endText}`);
+        
+        // Save the protected state and watch for edits made outside Obsidian
+        this.saveNuclearSnapshot();
+        this.startBlocklistWatch();
+        
+        this.app.workspace.trigger(NUCLEAR_START_EVENT, endTime ? endTime.getTime() : null);
+
+        // Update UI if settings tab is open
+        this.updateSettingsUI();
+    }
+    
+    // Release nuclear mode restrictions
+    private releaseNuclearMode() {
+        // Drop the protected state
+        this.stopBlocklistWatch();
+        this.clearNuclearSnapshot();
+        
+        // Show notification
+        new Notice('Nuclear mode deactivated. Normal settings restored.');
+        
+        this.app.workspace.trigger(NUCLEAR_END_EVENT);
+        
+        // Update UI if settings tab is open
+        this.updateSettingsUI();
+    }
+    
+    // NUCLEAR SNAPSHOT FUNCTIONS
+    
+    private getSnapshotPath(): string {
+        return this.manifest.dir + '/data/' + this.snapshotFilePath;
+    }
+    
+    // Save the protected entries and window end to data.json and the snapshot file
+    private async saveNuclearSnapshot() {
+        // API sessions can be stopped by the plugin that started them, so they don't extend the saved window
+        const endTime = this.getNuclearEndTime(false);
+        this.snapshotWindowEnd = Math.max(this.snapshotWindowEnd, endTime ? endTime.getTime() : 0);
+        
+        const contents = {
+            entries: this.parseBlocklist(this.originalBlocklist),
+            presets: Object.keys(this.settings.enabledPresets),
+            windowEnd: this.snapshotWindowEnd,
+            lastSeen: Date.now(),
+            timeZone: getTimeZone()
+        };
+        const snapshot: NuclearSnapshot = { ...contents, checksum: computeSnapshotChecksum(contents) };
+        
+        this.settings.nuclearSnapshot = snapshot;
+        try {
+            await this.app.vault.adapter.write(this.getSnapshotPath(), JSON.stringify(snapshot, null, 2));
+            await this.saveSettings();
+        } catch (error) {
+            console.error("Failed to save nuclear snapshot:", error);
+        }
+    }
+    
+    // Forget the snapshot once nuclear mode has ended
+    private async clearNuclearSnapshot() {
+        this.snapshotWindowEnd = 0;
+        this.settings.nuclearSnapshot = null;
+        
+        try {
+            if (await this.app.vault.adapter.exists(this.getSnapshotPath())) {
+                await this.app.vault.adapter.remove(this.getSnapshotPath());
+            }
+            await this.saveSettings();
+        } catch (error) {
+            console.error("Failed to clear nuclear snapshot:", error);
+        }
+    }
+    
+    // On load, check the saved snapshots and restore anything removed while the plugin wasn't running
+    private async restoreNuclearSnapshot() {
+        const snapshots: NuclearSnapshot[] = [];
+        if (this.settings.nuclearSnapshot) {
+            snapshots.push(this.settings.nuclearSnapshot);
+        }
+        try {
+            if (await this.app.vault.adapter.exists(this.getSnapshotPath())) {
+                snapshots.push(JSON.parse(await this.app.vault.adapter.read(this.getSnapshotPath())));
+            }
+        } catch (error) {
+            await this.logAuditEvent('snapshot-tampered', 'The nuclear snapshot file could not be read');
+        }
+        
+        const now = Date.now();
+        
+        if (snapshots.length === 0) {
+            // Nuclear mode was on when the plugin last saved, but both copies are gone
+            const window = getActiveNuclearWindow(this.settings.nuclearModeEnabled ? this.settings.nuclearSchedule : [], new Date(now));
+            if (this.settings.nuclearActive && (window || this.isFocusSessionActive())) {
+                await this.logAuditEvent('snapshot-tampered', 'The nuclear snapshot was deleted during nuclear mode');
+            }
+            return;
+        }
+        
+        // Edited copies can't be trusted on their own, so combine what every copy protects
+        const trusted = snapshots.filter(snapshot => snapshot.checksum === computeSnapshotChecksum(snapshot));
+        if (trusted.length < snapshots.length) {
+            await this.logAuditEvent('snapshot-tampered', 'The nuclear snapshot was edited outside Obsidian');
+        }
+        const entries = [...new Set(snapshots.flatMap(snapshot => snapshot.entries || []))];
+        const presets = [...new Set(snapshots.flatMap(snapshot => snapshot.presets || []))];
+        const lastSeen = Math.max(...snapshots.map(snapshot => snapshot.lastSeen || 0));
+        
+        // Only an untouched copy can end the window; if every copy was edited, stay locked for a while
+        let windowEnd = Math.max(0, ...trusted.map(snapshot => snapshot.windowEnd || 0));
+        if (trusted.length === 0) {
+            windowEnd = Math.max(now + TAMPERED_SNAPSHOT_LOCK, ...snapshots.map(snapshot => snapshot.windowEnd || 0));
+        }
+        
+        // API sessions aren't part of the saved window, but still protect the entries while they run
+        if (windowEnd <= now && !this.isFocusSessionActive()) {
+            // The window ended while the plugin wasn't running
+            await this.clearNuclearSnapshot();
+            return;
+        }
+        
+        this.snapshotWindowEnd = windowEnd;
+        
+        // Time the plugin wasn't running during the window counts as an override
+        if (lastSeen && now - lastSeen > 3 * 60000) {
+            const minutes = Math.round((now - lastSeen) / 60000);
+            await this.logAuditEvent('plugin-offline', `The plugin was not running for ${minutes} minutes during nuclear mode`);
+        }
+        
+        // The clock can't have run backwards since the last heartbeat, and the window end stays put
+        if (lastSeen - now > CLOCK_JUMP_TOLERANCE) {
+            const minutes = Math.round((lastSeen - now) / 60000);
+            await this.logAuditEvent('clock-changed', `The system clock was set back by ${minutes} minutes while the plugin wasn't running during nuclear mode`);
+        }
+        const timeZones = [...new Set(snapshots.map(snapshot => snapshot.timeZone).filter(zone => zone && zone !== getTimeZone()))];
+        if (timeZones.length > 0) {
+            await this.logAuditEvent('timezone-changed', `The time zone was changed from ${timeZones.join(', ')} to ${getTimeZone()} while the plugin wasn't running during nuclear mode`);
+        }
+        
+        // Put back protected entries and drop exceptions added in the meantime
+        const currentEntries = this.parseBlocklist(this.settings.blocklistContent);
+        const missingEntries = entries.filter(entry => !isExceptionEntry(entry) && !currentEntries.includes(entry));
+        const addedExceptions = currentEntries.filter(entry => isExceptionEntry(entry) && !entries.includes(entry));
+        
+        this.originalBlocklist = entries.join('\n');
+        this.settings.nuclearActive = true;
+        
+        // Turn presets back on that were turned off in data.json
+        const disabledPresets = presets.filter(id => !(id in this.settings.enabledPresets) &&
+            BLOCKLIST_PRESETS.some(preset => preset.id === id));
+        if (disabledPresets.length > 0) {
+            for (const id of disabledPresets) {
+                this.settings.enabledPresets[id] = 0;
+            }
+            await this.checkPresetUpdates();
+            this.rules = this.parseRules(this.settings.blocklistContent);
+            await this.logAuditEvent('presets-restored', `Turned presets back on: ${disabledPresets.join(', ')}`);
+        }
+        
+        if (missingEntries.length > 0 || addedExceptions.length > 0) {
+            await this.saveBlocklist();
+            await this.saveSettings();
+            await this.logAuditEvent('entries-restored',
+                `Restored ${missingEntries.length} removed entries and dropped ${addedExceptions.length} added exceptions`);
+            new Notice('Blocklist changes made outside Obsidian during nuclear mode have been reverted.');
+        }
+    }
+    
+    // Check the blocklist file for edits made outside Obsidian while nuclear mode is active
+    private startBlocklistWatch() {
+        if (this.blocklistWatchId) return;
+        
+        this.blocklistWatchId = window.setInterval(() => this.checkBlocklistFile(), 10000);
+    }
+    
+    private stopBlocklistWatch() {
+        if (this.blocklistWatchId) {
+            window.clearInterval(this.blocklistWatchId);
+            this.blocklistWatchId = 0;
+        }
+    }
+    
+    private async checkBlocklistFile() {
+        // Notes are watched through vault events instead
+        if (this.settings.blocklistNotePath) return;
+        
+        const blocklistPath = this.manifest.dir + '/data/' + this.blocklistFilePath;
+        try {
+            const content = await this.app.vault.adapter.read(blocklistPath);
+            if (content === this.settings.blocklistContent) return;
+            
+            // Saving keeps any additions and reverts removals and new exceptions
+            const before = this.parseBlocklist(content).join('\n');
+            this.settings.blocklistContent = content;
+            await this.saveBlocklist();
+            await this.saveSettings();
+            
+            if (this.parseBlocklist(this.settings.blocklistContent).join('\n') !== before) {
+                await this.logAuditEvent('file-edited', 'The blocklist file was edited outside Obsidian during nuclear mode');
+            }
+        } catch (error) {
+            // A deleted file is written again from the protected entries
+            await this.saveBlocklist();
+            await this.logAuditEvent('file-edited', 'The blocklist file was removed during nuclear mode');
+        }
+    }
+    
+    // Record an attempt to get around nuclear mode in data/audit-log.jsonl
+    async logAuditEvent(type: string, detail: string) {
+        const entry: AuditLogEntry = { timestamp: Date.now(), type, detail };
+        try {
+            await this.app.vault.adapter.append(this.manifest.dir + '/data/' + this.auditLogFilePath, JSON.stringify(entry) + '\n');
+        } catch (error) {
+            console.error("Failed to write audit log:", error);
+        }
+    }
+    
+    // Update settings UI based on nuclear mode status
+    private updateSettingsUI() {
+        // Find and update UI elements if settings tab is open
+        const blockingToggle = document.querySelector('.setting-item [data-nuclear-blocktoggle]') as HTMLElement;
+        if (blockingToggle) {
+            if (this.settings.nuclearActive) {
+                blockingToggle.style.opacity = '0.5';
+                blockingToggle.style.pointerEvents = 'none';
+            } else {
+                blockingToggle.style.opacity = '';
+                blockingToggle.style.pointerEvents = '';
+            }
+        }
+        
+        // Find and update Nuclear mode toggle if settings tab is open
+        const nuclearToggle = document.querySelector('.setting-item [data-nuclear-modetoggle]') as HTMLElement;
+        if (nuclearToggle) {
+            if (this.settings.nuclearActive) {
+                nuclearToggle.style.opacity = '0.5';
+                nuclearToggle.style.pointerEvents = 'none';
+            } else {
+                nuclearToggle.style.opacity = '';
+                nuclearToggle.style.pointerEvents = '';
+            }
+        }
+        
+        // Find and update Nuclear time inputs if settings tab is open
+        const timeInputs = document.querySelectorAll('.setting-item [data-nuclear-timeinput]') as NodeListOf<HTMLElement>;
+        timeInputs.forEach(input => {
+            if (this.settings.nuclearActive) {
+                input.style.opacity = '0.5';
+                input.style.pointerEvents = 'none';
+            } else {
+                input.style.opacity = '';
+                input.style.pointerEvents = '';
+            }
+        });
+    }
+    
+    // Helper to validate time format (HH:MM)
+    public isValidTimeFormat(time: string): boolean {
+        // Check if the format is HH:MM
+        const timeRegex = /^([0-1]?[0-9]|2[0-3]):([0-5][0-9])$/;
+        return timeRegex.test(time);
+    }
+    
+    // Helper to format time for display (with AM/PM)
+    public formatTimeForDisplay(time24: string): string {
+        const [hours, minutes] = time24.split(':').map(Number);
+        const period = hours >= 12 ? 'PM' : 'AM';
+        const hours12 = hours % 12 || 12; // Convert 0 to 12 for 12 AM
+        return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
+    }
+    
+    // Helper to format a date for display, with the weekday if it is not today
+    public formatDateForDisplay(date: Date): string {
+        const hours = date.getHours().toString().padStart(2, '0');
+        const minutes = date.getMinutes().toString().padStart(2, '0');
+        const time = this.formatTimeForDisplay(`${hours}:${minutes}`);
+        
+        if (date.toDateString() === new Date().toDateString()) {
+            return time;
+        }
+        return `${DAY_NAMES[date.getDay()]} ${time}`;
+    }
+    
+    // Helper to validate a nuclear schedule
+    public isValidSchedule(schedule: NuclearScheduleEntry[]): boolean {
+        return schedule.length > 0 && schedule.every(entry =>
+            entry.days !== 0 && this.isValidTimeFormat(entry.start) && this.isValidTimeFormat(entry.end));
+    }
+    
+    // Activate nuclear mode schedule
+    public activateNuclearSchedule() {
+        // Validate times
+        if (!this.isValidSchedule(this.settings.nuclearSchedule)) {
+            new Notice('Please give every schedule window at least one day and valid start and end times in HH:MM format');
+            return;
+        }
+        
+        // Enable nuclear mode
+        this.settings.nuclearModeEnabled = true;
+        
+        // Start the timer
+        this.startNuclearTimer();
+        
+        // Save settings
+        this.saveSettings();
+        
+        // Check if we should immediately enter nuclear mode
+        if (!this.settings.nuclearActive && this.checkNuclearStatus()) {
+            this.settings.nuclearActive = true;
+            this.enforceNuclearMode();
+        }
+    }
+
+    onunload() {
+        // Disabling the plugin during a window is an override
+        if (this.settings.nuclearActive) {
+            this.logAuditEvent('plugin-unloaded', 'The plugin was disabled or reloaded during nuclear mode');
+        }
+        
+        // Clear the intervals when the plugin is disabled
+        this.stopMonitoring();
+        
+        // Close any open block screens and dashboards
+        this.app.workspace.detachLeavesOfType(BLOCKED_VIEW_TYPE);
+        this.app.workspace.detachLeavesOfType(STATS_VIEW_TYPE);
+        
+        // Clear the nuclear timer
+        if (this.nuclearTimerId) {
+            window.clearInterval(this.nuclearTimerId);
+        }
+        
+        // Clear the focus session countdown
+        if (this.focusTimerId) {
+            window.clearInterval(this.focusTimerId);
+        }
+        
+        // Stop counting budget time and save what has been used
+        if (this.budgetTimerId) {
+            this.stopBudgetTimer();
+        }
+        
+        // Stop watching the blocklist file
+        this.stopBlocklistWatch();
+        
+        // Clear the snooze expiry timer
+        if (this.snoozeTimerId) {
+            window.clearTimeout(this.snoozeTimerId);
+        }
+        
+        // Drop a pending blocklist note check
+        if (this.noteModifyTimerId) {
+            window.clearTimeout(this.noteModifyTimerId);
+        }
+    }
+}
+
+// Modal for starting a focus session with a preset or custom length
+class FocusSessionModal extends Modal {
+    plugin: WebViewerUrlChecker;
+
+    constructor(app: App, plugin: WebViewerUrlChecker) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Start Focus Session');
+        
+        contentEl.createEl('p', {
+            text: 'Blocking will be enforced like nuclear mode until the session ends: you won\'t be able to disable blocking or remove items from the blocklist.'
+        });
+        
+        if (this.plugin.isFocusSessionActive()) {
+            const end = this.plugin.formatDateForDisplay(new Date(this.plugin.settings.focusSessionEnd));
+            contentEl.createEl('p', {
+                text: `A session is already running until ${end}. Starting another can only extend it.`,
+                cls: 'setting-item-description'
+            });
+        }
+        
+        // Preset durations
+        const presetContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        for (const minutes of FOCUS_SESSION_PRESETS) {
+            const button = presetContainer.createEl('button', {
+                text: minutes < 60 ? `${minutes} min` : `${minutes / 60} h`
+            });
+            button.addEventListener('click', () => this.start(minutes));
+        }
+        
+        // Custom duration
+        let customMinutes = 0;
+        new Setting(contentEl)
+            .setName('Custom length')
+            .setDesc('Minutes')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '1';
+                text.inputEl.style.width = '80px';
+                text.onChange(value => {
+                    customMinutes = Number(value);
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Start')
+                .setCta()
+                .onClick(() => this.start(customMinutes)));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+    
+    private async start(minutes: number) {
+        if (!(minutes > 0)) {
+            new Notice('Please enter a focus session length in minutes');
+            return;
+        }
+        
+        this.close();
+        await this.plugin.startFocusSession(minutes);
+    }
+}
+
+// Friction checks (countdown, typing challenge, reason) before blocking is loosened
+class FrictionModal extends Modal {
+    plugin: WebViewerUrlChecker;
+    private action: string;
+    private onResult: (reason: string | null) => void;
+    private confirmed = false;
+    private timerId = 0;
+
+    constructor(app: App, plugin: WebViewerUrlChecker, action: string, onResult: (reason: string | null) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.action = action;
+        this.onResult = onResult;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const { settings } = this.plugin;
+        this.titleEl.setText(this.action);
+        
+        contentEl.createEl('p', { text: 'Take a moment before you do this. Is it really what you want right now?' });
+        
+        let secondsLeft = settings.frictionCountdownSeconds;
+        let typingDone = settings.frictionTypingWords === 0;
+        let reason = '';
+        
+        // Typing challenge: a random passage that must be typed exactly, without pasting
+        if (settings.frictionTypingWords > 0) {
+            const passage = Array.from({ length: settings.frictionTypingWords }, () =>
+                TYPING_CHALLENGE_WORDS[Math.floor(Math.random() * TYPING_CHALLENGE_WORDS.length)]).join(' ');
+            
+            contentEl.createEl('p', { text: 'Type the following passage exactly:', cls: 'setting-item-description' });
+            const passageEl = contentEl.createEl('p', { text: passage, cls: 'web-blocker-friction-passage' });
+            passageEl.addEventListener('copy', (event) => event.preventDefault());
+            
+            const typingEl = contentEl.createEl('textarea', { cls: 'web-blocker-friction-input' });
+            typingEl.addEventListener('paste', (event) => event.preventDefault());
+            typingEl.addEventListener('drop', (event) => event.preventDefault());
+            typingEl.addEventListener('input', () => {
+                typingDone = typingEl.value === passage;
+                typingEl.style.borderColor = passage.startsWith(typingEl.value) ? '' : 'red';
+                updateButton();
+            });
+        }
+        
+        // Written reason
+        if (settings.frictionRequireReason) {
+            contentEl.createEl('p', { text: 'Why are you doing this?', cls: 'setting-item-description' });
+            const reasonEl = contentEl.createEl('textarea', { cls: 'web-blocker-friction-input' });
+            reasonEl.addEventListener('input', () => {
+                reason = reasonEl.value.trim();
+                updateButton();
+            });
+        }
+        
+        // Add buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        
+        const cancelButton = buttonContainer.createEl('button', { text: 'Never mind', cls: 'mod-cta' });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+        
+        const confirmButton = buttonContainer.createEl('button', { text: 'Continue' });
+        confirmButton.addEventListener('click', () => {
+            this.confirmed = true;
+            this.close();
+            this.onResult(reason);
+        });
+        
+        const updateButton = () => {
+            const reasonDone = !settings.frictionRequireReason || reason.length > 0;
+            confirmButton.disabled = secondsLeft > 0 || !typingDone || !reasonDone;
+            confirmButton.setText(secondsLeft > 0 ? `Continue (${secondsLeft}s)` : 'Continue');
+        };
+        
+        // Countdown before the button can be used
+        if (secondsLeft > 0) {
+            this.timerId = window.setInterval(() => {
+                secondsLeft--;
+                updateButton();
+                if (secondsLeft <= 0) {
+                    window.clearInterval(this.timerId);
+                    this.timerId = 0;
+                }
+            }, 1000);
+        }
+        
+        updateButton();
+    }
+
+    onClose() {
+        if (this.timerId) {
+            window.clearInterval(this.timerId);
+        }
+        this.contentEl.empty();
+        
+        if (!this.confirmed) {
+            this.onResult(null);
+        }
+    }
+}
+
+// Picker for the vault file to import a blocklist from
+class ImportFileSuggestModal extends FuzzySuggestModal<TFile> {
+    plugin: WebViewerUrlChecker;
+
+    constructor(app: App, plugin: WebViewerUrlChecker) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder('Choose a hosts file, filter list or domain list to import');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => IMPORT_FILE_EXTENSIONS.includes(file.extension));
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    async onChooseItem(file: TFile) {
+        const content = await this.app.vault.read(file);
+        new ImportPreviewModal(this.app, this.plugin, file, convertImportedList(content)).open();
+    }
+}
+
+// Preview of the entries an import will add, with a confirmation button
+class ImportPreviewModal extends Modal {
+    plugin: WebViewerUrlChecker;
+    private file: TFile;
+    private result: ImportResult;
+
+    constructor(app: App, plugin: WebViewerUrlChecker, file: TFile, result: ImportResult) {
+        super(app);
+        this.plugin = plugin;
+        this.file = file;
+        this.result = result;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Import ${this.file.name}`);
+        
+        // Leave out entries the blocklist already has
+        const existing = this.plugin.parseBlocklist(this.plugin.settings.blocklistContent);
+        const newEntries = this.result.entries.filter(entry => !existing.includes(entry));
+        const alreadyPresent = this.result.entries.length - newEntries.length;
+        
+        const formatNames: Record<ImportFormat, string> = {
+            hosts: 'hosts file',
+            adblock: 'Adblock/uBlock filter list',
+            domains: 'domain list'
+        };
+        
+        const summary = [`Detected a ${formatNames[this.result.format]}. ${newEntries.length} new entries will be added.`];
+        if (alreadyPresent > 0) summary.push(`${alreadyPresent} are already in your blocklist.`);
+        if (this.result.duplicates > 0) summary.push(`${this.result.duplicates} duplicates were removed.`);
+        if (this.result.skipped > 0) summary.push(`${this.result.skipped} lines were skipped (cosmetic filters, filters limited by options or unsupported syntax).`);
+        contentEl.createEl('p', { text: summary.join(' ') });
+        
+        if (this.plugin.settings.nuclearActive) {
+            contentEl.createEl('p', {
+                text: 'Nuclear mode is active: exception (@@) entries will not be added.',
+                cls: 'setting-item-description'
+            });
+        }
+        
+        // Preview of the entries
+        const previewEl = contentEl.createEl('textarea', { cls: 'web-blocker-import-preview' });
+        previewEl.value = newEntries.join('\n');
+        previewEl.readOnly = true;
+        
+        // Add buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+        
+        const importButton = buttonContainer.createEl('button', {
+            text: 'Import',
+            cls: 'mod-cta'
+        });
+        importButton.disabled = newEntries.length === 0;
+        importButton.addEventListener('click', async () => {
+            this.close();
+            const added = await this.plugin.addBlocklistEntries(newEntries);
+            new Notice(`Imported ${added} entries into the blocklist`);
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Show a URL diagnosis: each URL checked, what was extracted from it, every matching rule and the decision
+function renderUrlDiagnosis(containerEl: HTMLElement, diagnosis: UrlDiagnosis) {
+    containerEl.empty();
+    containerEl.addClass('web-blocker-diagnosis');
+    
+    containerEl.createEl('p', {
+        text: diagnosis.decision,
+        cls: diagnosis.rule ? 'web-blocker-diagnosis-blocked' : 'web-blocker-diagnosis-allowed'
+    });
+    
+    diagnosis.steps.forEach((step, index) => {
+        const stepEl = containerEl.createDiv({ cls: 'web-blocker-diagnosis-step' });
+        stepEl.createEl('h6', { text: index === 0 ? 'URL' : `Destination ${index} (unwrapped from the URL above)` });
+        
+        const details = stepEl.createEl('ul');
+        if (!step.context) {
+            details.createEl('li', { text: 'Not a valid URL, so only plain keywords were checked' });
+        } else {
+            details.createEl('li', { text: `Normalized: ${step.context.url}` });
+            details.createEl('li', { text: `Host: ${step.context.host}` });
+            const queries = step.context.queries.map(query => `"${query.text}" (${query.source})`);
+            details.createEl('li', {
+                text: queries.length > 0
+                    ? `Search query${step.context.searchEngine ? ` on ${step.context.searchEngine}` : ''}: ${queries.join(', ')}`
+                    : 'No search query'
+            });
         }
         
-        // Check every 500ms (twice per second)
-        this.intervalId = window.setInterval(() => {
-            this.checkAllWebViewerAddresses();
-        }, 500);
+        for (const match of step.matches) {
+            details.createEl('li', { text: `Matches ${match.rule.raw} in the ${match.location}` });
+        }
+        for (const match of step.exceptions) {
+            details.createEl('li', { text: `Exception ${match.rule.raw} applies (matches the ${match.location})` });
+        }
+        if (step.matches.length === 0 && step.exceptions.length === 0) {
+            details.createEl('li', { text: 'No rules match' });
+        }
+    });
+    
+    if (diagnosis.budgets.length > 0) {
+        const budgetList = containerEl.createEl('ul');
+        for (const { budget, remaining } of diagnosis.budgets) {
+            budgetList.createEl('li', {
+                text: `Daily budget ${budget.pattern}: ${remaining > 0 ? formatDuration(remaining) + ' left' : 'used up'}`
+            });
+        }
     }
+}
 
-    stopMonitoring() {
-        if (this.intervalId) {
-            window.clearInterval(this.intervalId);
-            this.intervalId = 0;
-        }
+// Modal for checking whether a URL would be blocked
+class TestUrlModal extends Modal {
+    plugin: WebViewerUrlChecker;
+
+    constructor(app: App, plugin: WebViewerUrlChecker) {
+        super(app);
+        this.plugin = plugin;
     }
 
-    checkAllWebViewerAddresses() {
-        // Find all webviewer-address elements
-        const addressElements = document.querySelectorAll('.webviewer-address');
-        
-        if (addressElements.length === 0) {
-            return;
-        }
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Test a URL');
         
-        // Create a set of current element IDs to detect removals
-        const currentIds = new Set<string>();
+        const resultEl = contentEl.createDiv();
         
-        // Iterate through all address bars
-        addressElements.forEach((element) => {
-            // Get the input element
-            const inputElement = element.querySelector('input');
-            
-            if (inputElement) {
-                // Create a unique ID for this element based on its position in DOM
-                const elemId = this.getElementPath(element);
-                currentIds.add(elemId);
-                
-                const currentValue = inputElement.value;
-                const previousValue = this.addressValues.get(elemId);
-                
-                // Only check if the value has changed or is new
-                if (currentValue && currentValue !== previousValue) {
-                    this.addressValues.set(elemId, currentValue);
-                    this.checkUrlForStrings(currentValue);
-                }
-            }
-        });
+        new Setting(contentEl)
+            .setName('URL')
+            .addText(text => {
+                text.inputEl.style.width = '100%';
+                text.setPlaceholder('https://example.com/page')
+                    .setValue(this.plugin.getActiveWebViewerUrl() || '')
+                    .onChange(value => this.showResult(value, resultEl));
+                this.showResult(text.getValue(), resultEl);
+            });
         
-        // Clean up tracking for elements that no longer exist
-        for (const elemId of this.addressValues.keys()) {
-            if (!currentIds.has(elemId)) {
-                this.addressValues.delete(elemId);
-            }
-        }
+        // Keep the result below the input
+        contentEl.appendChild(resultEl);
     }
 
-    checkUrlForStrings(url: string) {
-        try {
-            // Skip checks if blocking is disabled
-            if (!this.settings.isEnabled) return;
-            
-            // Check if the URL itself contains any of the strings
-            for (const stringToCheck of this.stringsToCheck) {
-                if (url.toLowerCase().includes(stringToCheck.toLowerCase())) {
-                    const leaf = this.app.workspace.getMostRecentLeaf();
-                    if (leaf) {
-                        const viewType = leaf.view.getViewType();
-                        this.app.workspace.detachLeavesOfType(viewType);
-                    }
-                    return;
-                }
-            }
-            
-            // Parse the URL to extract query parameters
-            const parsedUrl = new URL(url);
-            const searchParams = parsedUrl.searchParams;
-            
-            // Check common search query parameters
-            const queryParams = ['q', 'query', 'search', 'text', 'term', 'p', 'keyword'];
-            
-            for (const param of queryParams) {
-                if (searchParams.has(param)) {
-                    const searchQuery = searchParams.get(param) || '';
-                    
-                    // Decode the search query
-                    const decodedQuery = decodeURIComponent(searchQuery)
-                        .replace(/\+/g, ' ')  // Replace + with spaces
-                        .toLowerCase();
-                    
-                    // Check each string against the decoded query
-                    for (const stringToCheck of this.stringsToCheck) {
-                        if (decodedQuery.includes(stringToCheck.toLowerCase())) {
-                            const leaf = this.app.workspace.getMostRecentLeaf();
-                            if (leaf) {
-                                const viewType = leaf.view.getViewType();
-                                this.app.workspace.detachLeavesOfType(viewType);
-                                return;
-                            }
-                        }
-                    }
-                }
-            }
-            
-            // Also check all other parameters
-            searchParams.forEach((value, key) => {
-                const decodedValue = decodeURIComponent(value).replace(/\+/g, ' ').toLowerCase();
-                
-                for (const stringToCheck of this.stringsToCheck) {
-                    if (decodedValue.includes(stringToCheck.toLowerCase())) {
-                        const leaf = this.app.workspace.getMostRecentLeaf();
-                        if (leaf) {
-                            const viewType = leaf.view.getViewType();
-                            this.app.workspace.detachLeavesOfType(viewType);
-                            return;
-                        }
-                    }
-                }
-            });
-            
-        } catch (error) {
-            // Silently handle invalid URLs
-        }
+    onClose() {
+        this.contentEl.empty();
     }
     
-    // Helper function to generate a unique path for an element
-    getElementPath(element: Element): string {
-        let path = '';
-        let current = element;
-        
-        while (current && current !== document.body) {
-            const index = Array.from(current.parentElement?.children || []).indexOf(current);
-            path = `${current.tagName}:${index}>${path}`;
-            current = current.parentElement as Element;
+    private showResult(url: string, resultEl: HTMLElement) {
+        if (!url.trim()) {
+            resultEl.empty();
+            return;
         }
         
-        return path;
+        renderUrlDiagnosis(resultEl, this.plugin.diagnoseUrl(url.trim()));
+    }
+}
+
+// Block screen shown in place of a blocked web viewer page
+class BlockedPageView extends ItemView {
+    plugin: WebViewerUrlChecker;
+    private state: BlockedViewState = { url: '', rule: '', previousUrl: '' };
+
+    constructor(leaf: WorkspaceLeaf, plugin: WebViewerUrlChecker) {
+        super(leaf);
+        this.plugin = plugin;
     }
 
-    // NUCLEAR MODE FUNCTIONS
-    
-    // Check if nuclear mode should be active based on current time
-    private checkNuclearStatus(): boolean {
-        if (!this.settings.nuclearModeEnabled) return false;
+    getViewType(): string {
+        return BLOCKED_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Blocked page';
+    }
+
+    getIcon(): string {
+        return 'lock';
+    }
+
+    getState(): BlockedViewState {
+        return this.state;
+    }
+
+    async setState(state: BlockedViewState, result: ViewStateResult): Promise<void> {
+        this.state = Object.assign({ url: '', rule: '', previousUrl: '' }, state);
+        await this.render();
+    }
+
+    async onOpen() {
+        await this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    private async render() {
+        const { contentEl } = this;
+        const { settings } = this.plugin;
         
-        // Parse the start and end times
-        const now = new Date();
-        const currentHour = now.getHours();
-        const currentMinute = now.getMinutes();
+        contentEl.empty();
+        contentEl.addClass('web-blocker-blocked-view');
         
-        // Parse the stored times (format: "HH:MM")
-        const [startHour, startMinute] = this.settings.nuclearStartTime.split(':').map(Number);
-        const [endHour, endMinute] = this.settings.nuclearEndTime.split(':').map(Number);
+        contentEl.createEl('h2', { text: 'This page is blocked' });
         
-        // Calculate current time in minutes for easier comparison
-        const currentTimeInMinutes = currentHour * 60 + currentMinute;
-        const startTimeInMinutes = startHour * 60 + startMinute;
-        const endTimeInMinutes = endHour * 60 + endMinute;
+        // Blocked URL and the rule that matched it
+        const details = contentEl.createDiv({ cls: 'web-blocker-blocked-details' });
+        details.createEl('p', { text: this.state.url, cls: 'web-blocker-blocked-url' });
+        const ruleEl = details.createEl('p', { text: 'Matched rule: ' });
+        ruleEl.createEl('code', { text: this.state.rule });
         
-        // Handle cases where the time spans across midnight
-        if (startTimeInMinutes < endTimeInMinutes) {
-            // Normal case: Start time is before end time in the same day
-            return currentTimeInMinutes >= startTimeInMinutes && currentTimeInMinutes < endTimeInMinutes;
+        // Nuclear mode status
+        const endTime = settings.nuclearActive ? this.plugin.getNuclearEndTime() : null;
+        if (endTime) {
+            details.createEl('p', { text: `Nuclear mode is active until ${this.plugin.formatDateForDisplay(endTime)}.` });
+        } else if (settings.nuclearActive) {
+            details.createEl('p', { text: 'Nuclear mode is active.' });
         } else {
-            // Across midnight case: End time is on the next day
-            return currentTimeInMinutes >= startTimeInMinutes || currentTimeInMinutes < endTimeInMinutes;
-        }
-    }
-    
-    // Start timer to check nuclear status
-    private startNuclearTimer() {
-        // Clear existing timer if any
-        if (this.nuclearTimerId) {
-            window.clearInterval(this.nuclearTimerId);
+            details.createEl('p', { text: 'Nuclear mode is not active.' });
         }
         
-        // Check every minute
-        this.nuclearTimerId = window.setInterval(() => {
-            const wasActive = this.settings.nuclearActive;
-            this.settings.nuclearActive = this.checkNuclearStatus();
-            
-            // If status changed
-            if (wasActive !== this.settings.nuclearActive) {
-                if (this.settings.nuclearActive) {
-                    // Nuclear mode just activated
-                    this.enforceNuclearMode();
-                } else {
-                    // Nuclear mode just deactivated
-                    this.releaseNuclearMode();
-                }
-                this.saveSettings();
-            }
-        }, 60000); // Check every minute
-    }
-    
-    // Enforce nuclear mode restrictions
-    private enforceNuclearMode() {
-        // Store the original blocklist for later comparison
-        this.originalBlocklist = this.settings.blocklistContent;
+        // Custom message and embedded note
+        if (settings.blockScreenMessage.trim()) {
+            const messageEl = contentEl.createDiv({ cls: 'web-blocker-blocked-message' });
+            await MarkdownRenderer.renderMarkdown(settings.blockScreenMessage, messageEl, '', this);
+        }
         
-        // Force enable blocking if it was disabled
-        if (!this.settings.isEnabled) {
-            this.settings.isEnabled = true;
-            this.startMonitoring();
+        const note = this.getBlockScreenNote();
+        if (note) {
+            const noteEl = contentEl.createDiv({ cls: 'web-blocker-blocked-note' });
+            const noteContent = await this.app.vault.cachedRead(note);
+            await MarkdownRenderer.renderMarkdown(noteContent, noteEl, note.path, this);
         }
         
-        // Show notification
-        const endTime = this.formatTimeForDisplay(this.settings.nuclearEndTime);
-        new Notice(`Nuclear mode activated! Blocking is enforced until ${endTime}`);
-
-        // Update UI if settings tab is open
-        this.updateSettingsUI();
-    }
-    
-    // Release nuclear mode restrictions
-    private releaseNuclearMode() {
-        // Show notification
-        new Notice('Nuclear mode deactivated. Normal settings restored.');
+        // Actions
+        const buttonContainer = contentEl.createDiv({ cls: 'web-blocker-blocked-buttons' });
         
-        // Update UI if settings tab is open
-        this.updateSettingsUI();
-    }
-    
-    // Update settings UI based on nuclear mode status
-    private updateSettingsUI() {
-        // Find and update UI elements if settings tab is open
-        const blockingToggle = document.querySelector('.setting-item [data-nuclear-blocktoggle]') as HTMLElement;
-        if (blockingToggle) {
-            if (this.settings.nuclearActive) {
-                blockingToggle.style.opacity = '0.5';
-                blockingToggle.style.pointerEvents = 'none';
+        const backButton = buttonContainer.createEl('button', {
+            text: this.state.previousUrl ? 'Go back' : 'Close tab'
+        });
+        backButton.addEventListener('click', () => {
+            if (this.state.previousUrl) {
+                this.leaf.setViewState({ type: WEBVIEWER_VIEW_TYPE, state: { url: this.state.previousUrl } });
             } else {
-                blockingToggle.style.opacity = '';
-                blockingToggle.style.pointerEvents = '';
+                this.leaf.detach();
             }
-        }
+        });
         
-        // Find and update Nuclear mode toggle if settings tab is open
-        const nuclearToggle = document.querySelector('.setting-item [data-nuclear-modetoggle]') as HTMLElement;
-        if (nuclearToggle) {
-            if (this.settings.nuclearActive) {
-                nuclearToggle.style.opacity = '0.5';
-                nuclearToggle.style.pointerEvents = 'none';
-            } else {
-                nuclearToggle.style.opacity = '';
-                nuclearToggle.style.pointerEvents = '';
-            }
+        if (note) {
+            const noteButton = buttonContainer.createEl('button', {
+                text: `Open ${note.basename}`,
+                cls: 'mod-cta'
+            });
+            noteButton.addEventListener('click', () => {
+                this.leaf.openFile(note);
+            });
         }
         
-        // Find and update Nuclear time inputs if settings tab is open
-        const timeInputs = document.querySelectorAll('.setting-item [data-nuclear-timeinput]') as NodeListOf<HTMLElement>;
-        timeInputs.forEach(input => {
-            if (this.settings.nuclearActive) {
-                input.style.opacity = '0.5';
-                input.style.pointerEvents = 'none';
-            } else {
-                input.style.opacity = '';
-                input.style.pointerEvents = '';
-            }
-        });
+        // Snooze pass for this domain, never offered during nuclear mode
+        const snoozeDomain = this.plugin.getSnoozeDomain(this.state.url);
+        if (snoozeDomain) {
+            const passesLeft = settings.snoozeDailyLimit - this.plugin.getSnoozePassesUsed();
+            const snoozeButton = buttonContainer.createEl('button', {
+                text: `Allow ${snoozeDomain} for ${settings.snoozeMinutes} min (${passesLeft} ${passesLeft === 1 ? 'pass' : 'passes'} left today)`
+            });
+            snoozeButton.addEventListener('click', async () => {
+                if (await this.plugin.snoozeUrl(this.state.url)) {
+                    this.leaf.setViewState({ type: WEBVIEWER_VIEW_TYPE, state: { url: this.state.url } });
+                }
+            });
+        }
     }
     
-    // Helper to validate time format (HH:MM)
-    public isValidTimeFormat(time: string): boolean {
-        // Check if the format is HH:MM
-        const timeRegex = /^([0-1]?[0-9]|2[0-3]):([0-5][0-9])$/;
-        return timeRegex.test(time);
+    // Resolve the configured block screen note, if it exists
+    private getBlockScreenNote(): TFile | null {
+        const path = this.plugin.settings.blockScreenNote.trim();
+        if (!path) return null;
+        
+        const file = this.app.vault.getAbstractFileByPath(path) ||
+            this.app.vault.getAbstractFileByPath(path + '.md');
+        return file instanceof TFile ? file : null;
     }
-    
-    // Helper to format time for display (with AM/PM)
-    public formatTimeForDisplay(time24: string): string {
-        const [hours, minutes] = time24.split(':').map(Number);
-        const period = hours >= 12 ? 'PM' : 'AM';
-        const hours12 = hours % 12 || 12; // Convert 0 to 12 for 12 AM
-        return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
+}
+
+// Dashboard of recorded block events
+class BlockStatsView extends ItemView {
+    plugin: WebViewerUrlChecker;
+
+    constructor(leaf: WorkspaceLeaf, plugin: WebViewerUrlChecker) {
+        super(leaf);
+        this.plugin = plugin;
     }
-    
-    // Activate nuclear mode schedule
-    public activateNuclearSchedule() {
-        // Validate times
-        if (!this.isValidTimeFormat(this.settings.nuclearStartTime) || 
-            !this.isValidTimeFormat(this.settings.nuclearEndTime)) {
-            new Notice('Please enter valid start and end times in HH:MM format');
-            return;
-        }
+
+    getViewType(): string {
+        return STATS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Blocking statistics';
+    }
+
+    getIcon(): string {
+        return 'bar-chart';
+    }
+
+    async onOpen() {
+        await this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    async render() {
+        const summary = summarizeBlockLog(await this.plugin.readBlockLog(), new Date());
+        const { contentEl } = this;
         
-        // Enable nuclear mode
-        this.settings.nuclearModeEnabled = true;
+        contentEl.empty();
+        contentEl.addClass('web-blocker-stats-view');
+        contentEl.createEl('h2', { text: 'Blocking statistics' });
         
-        // Start the timer
-        this.startNuclearTimer();
+        if (summary.total === 0) {
+            contentEl.createEl('p', {
+                text: 'No blocked pages have been recorded yet.',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
         
-        // Save settings
-        this.saveSettings();
+        // Headline numbers
+        const totals = contentEl.createDiv({ cls: 'web-blocker-stats-totals' });
+        const addTotal = (label: string, value: number) => {
+            const totalEl = totals.createDiv({ cls: 'web-blocker-stats-total' });
+            totalEl.createDiv({ text: value.toString(), cls: 'web-blocker-stats-value' });
+            totalEl.createDiv({ text: label, cls: 'setting-item-description' });
+        };
+        addTotal('Blocked attempts', summary.total);
+        addTotal('During nuclear mode', summary.insideNuclear);
+        addTotal('Outside nuclear mode', summary.outsideNuclear);
+        addTotal('Days without a block', summary.currentStreak);
+        addTotal('Longest streak (days)', summary.longestStreak);
         
-        // Check if we should immediately enter nuclear mode
-        if (this.checkNuclearStatus()) {
-            this.settings.nuclearActive = true;
-            this.enforceNuclearMode();
+        // Attempts per day as a simple bar chart
+        contentEl.createEl('h3', { text: 'Last 14 days' });
+        const chart = contentEl.createDiv({ cls: 'web-blocker-stats-chart' });
+        const maxCount = Math.max(1, ...summary.perDay.map(day => day.count));
+        for (const { day, count } of summary.perDay) {
+            const column = chart.createDiv({ cls: 'web-blocker-stats-column', attr: { title: `${day}: ${count}` } });
+            const bar = column.createDiv({ cls: 'web-blocker-stats-bar' });
+            bar.style.height = `${(count / maxCount) * 100}%`;
+            column.createDiv({ text: day.slice(8), cls: 'web-blocker-stats-label' });
         }
-    }
-
-    onunload() {
-        // Clear the intervals when the plugin is disabled
-        this.stopMonitoring();
         
-        // Clear the nuclear timer
-        if (this.nuclearTimerId) {
-            window.clearInterval(this.nuclearTimerId);
-        }
+        // Top rules and domains
+        const addTable = (title: string, rows: [string, number][]) => {
+            contentEl.createEl('h3', { text: title });
+            const table = contentEl.createEl('table', { cls: 'web-blocker-stats-table' });
+            for (const [name, count] of rows) {
+                const row = table.createEl('tr');
+                row.createEl('td').createEl('code', { text: name });
+                row.createEl('td', { text: count.toString() });
+            }
+        };
+        addTable('Top blocked rules', summary.topRules);
+        addTable('Top blocked domains', summary.topDomains);
     }
 }
 
@@ -496,6 +4018,13 @@ export default class WebViewerUrlChecker extends Plugin {
 class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
     plugin: WebViewerUrlChecker;
     private _tempBlocklistContent: string = ""; // Temporary storage for blocklist content
+    private schedulePreviewEl: HTMLElement | null = null;
+    
+    // Rule table state, kept while the tab is redrawn
+    private ruleFilter = '';
+    private ruleView: 'all' | 'enabled' | 'disabled' | 'warnings' = 'all';
+    private ruleSort: 'order' | 'rule' | 'type' = 'order';
+    private selectedEntries: Set<string> = new Set();
 
     constructor(app: App, plugin: WebViewerUrlChecker) {
         super(app, plugin);
@@ -510,46 +4039,95 @@ class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
         // Create a container for the toggle with a data attribute for nuclear mode
         const toggleContainer = new Setting(containerEl)
             .setName('Enable URL Blocking')
-            .setDesc('When enabled, tabs with blocked content will automatically close.')
+            .setDesc('When enabled, web viewer tabs that open blocked content are closed, sent back or replaced with a block screen.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.isEnabled)
+                .onChange(async (value) => {
+                    if (!await this.plugin.setBlockingEnabled(value)) {
+                        toggle.setValue(this.plugin.settings.isEnabled);
+                    }
+                }));
+        
+        // Add a data attribute for easier reference
+        toggleContainer.settingEl.setAttribute('data-nuclear-blocktoggle', 'true');
+        
+        // Disable the toggle if nuclear mode is active
+        if (this.plugin.settings.nuclearActive) {
+            toggleContainer.settingEl.style.opacity = '0.5';
+            toggleContainer.settingEl.style.pointerEvents = 'none';
+        }
+        
+        new Setting(containerEl)
+            .setName('Block action')
+            .setDesc('What happens to a web viewer tab when it opens a blocked page. Other tabs are left alone.')
+            .addDropdown(dropdown => dropdown
+                .addOption('close', 'Close the tab')
+                .addOption('back', 'Go back to the previous page')
+                .addOption('blockScreen', 'Show a block screen')
+                .setValue(this.plugin.settings.blockAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.blockAction = value as BlockAction;
+                    await this.plugin.saveSettings();
+                }));
+        
+        new Setting(containerEl)
+            .setName('Block screen message')
+            .setDesc('Optional message shown on the block screen. Markdown is supported.')
+            .addTextArea(text => text
+                .setPlaceholder('Is this really what you meant to do right now?')
+                .setValue(this.plugin.settings.blockScreenMessage)
+                .onChange(async (value) => {
+                    this.plugin.settings.blockScreenMessage = value;
+                    await this.plugin.saveSettings();
+                }));
+        
+        new Setting(containerEl)
+            .setName('Block screen note')
+            .setDesc('Optional path of a note to embed on the block screen, with a button to open it instead.')
+            .addText(text => text
+                .setPlaceholder('Folder/Note.md')
+                .setValue(this.plugin.settings.blockScreenNote)
+                .onChange(async (value) => {
+                    this.plugin.settings.blockScreenNote = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Check links opened from notes')
+            .setDesc('Also block links clicked in notes, opened with window.open or sent to your system browser. Blocked links show the block screen in a new tab, or a notice for the other block actions.')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.isEnabled)
+                .setValue(this.plugin.settings.interceptExternalLinks)
                 .onChange(async (value) => {
-                    // Only allow disabling if nuclear mode is not active
+                    // Turning this off loosens blocking, so it follows the same rules as turning blocking off
                     if (!value && this.plugin.settings.nuclearActive) {
-                        new Notice('Cannot disable blocking during nuclear mode');
+                        new Notice('Cannot stop checking links during nuclear mode');
                         toggle.setValue(true);
                         return;
                     }
-                    
-                    this.plugin.settings.isEnabled = value;
-                    await this.plugin.saveSettings();
-                    
-                    // Start or stop monitoring based on the setting
-                    if (value) {
-                        this.plugin.startMonitoring();
-                    } else {
-                        this.plugin.stopMonitoring();
+                    if (!value && !await this.plugin.requestUnlock('Stop checking links opened from notes')) {
+                        toggle.setValue(true);
+                        return;
                     }
+                    this.plugin.settings.interceptExternalLinks = value;
+                    await this.plugin.saveSettings();
                 }));
-        
-        // Add a data attribute for easier reference
-        toggleContainer.settingEl.setAttribute('data-nuclear-blocktoggle', 'true');
-        
-        // Disable the toggle if nuclear mode is active
-        if (this.plugin.settings.nuclearActive) {
-            toggleContainer.settingEl.style.opacity = '0.5';
-            toggleContainer.settingEl.style.pointerEvents = 'none';
-        }
 
         new Setting(containerEl).setName('Blocklist').setHeading();
 		
         const description = containerEl.createEl('p', {
-            text: 'Add websites or keywords to block. One per line, or separate with commas, tabs, or semicolons.',
+            text: 'Add websites or keywords to block. One per line, or separate with commas, tabs, or semicolons. Use ||domain.com for a domain and its subdomains, domain.com/path for a path prefix, * as a wildcard, /pattern/ for a regular expression, ?keyword to match search queries only and "keyword" to match whole words only. Use title:keyword or content:keyword to check the loaded page (see below). Prefix any rule with @@ to make it an exception that is never blocked. Lines starting with # are comments.',
             cls: 'setting-item-description'
         });
 
+        // Rule table
+        this.displayRuleTable(containerEl);
+
+        // The whole blocklist as text, for pasting and bulk edits
+        const textEditor = containerEl.createEl('details', { cls: 'web-blocker-text-editor' });
+        textEditor.createEl('summary', { text: 'Edit as text' });
+
         // Create a container for the text area
-        const textAreaContainer = containerEl.createDiv({
+        const textAreaContainer = textEditor.createDiv({
             cls: 'setting-item'
         });
 
@@ -571,7 +4149,7 @@ class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
         textArea.value = this._tempBlocklistContent;
 
         // Add save button
-        const buttonContainer = containerEl.createDiv({
+        const buttonContainer = textEditor.createDiv({
             cls: 'setting-item'
         });
         
@@ -582,6 +4160,13 @@ class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
         
         // Add save button event listener
         saveButton.addEventListener('click', async () => {
+            // Removing entries outside nuclear mode may have to get past the friction checks
+            const removed = this.plugin.getRemovedEntries(this.plugin.settings.blocklistContent, textArea.value);
+            if (!this.plugin.settings.nuclearActive && removed.length > 0 &&
+                !await this.plugin.requestUnlock(`Remove ${removed.join(', ')} from the blocklist`)) {
+                return;
+            }
+            
             // Update the settings with the textarea content
             this.plugin.settings.blocklistContent = textArea.value;
             await this.plugin.saveSettings();
@@ -595,6 +4180,7 @@ class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
             } else {
                 new Notice('Failed to save blocklist', 4000);
             }
+            this.display();
         });
 
         // Add event listener for text changes (but don't save to file)
@@ -603,12 +4189,223 @@ class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
             this._tempBlocklistContent = textArea.value;
         });
 
+        // Page title and text inspection
+        new Setting(containerEl)
+            .setName('Check loaded pages')
+            .setDesc('Check title: and content: rules against pages once they load, for pages with innocent-looking URLs. Reading page text runs on every page you load, so this is off by default.')
+            .addDropdown(dropdown => dropdown
+                .addOption('off', 'Off')
+                .addOption('title', 'Page titles')
+                .addOption('text', 'Page titles and visible text')
+                .setValue(this.plugin.settings.pageInspection)
+                .onChange(async (value) => {
+                    // Checking less would switch off protected title: and content: rules
+                    const levels: PageInspection[] = ['off', 'title', 'text'];
+                    if (this.plugin.settings.nuclearActive &&
+                        levels.indexOf(value as PageInspection) < levels.indexOf(this.plugin.settings.pageInspection)) {
+                        new Notice('Cannot check less of each page during nuclear mode');
+                        dropdown.setValue(this.plugin.settings.pageInspection);
+                        return;
+                    }
+                    this.plugin.settings.pageInspection = value as PageInspection;
+                    await this.plugin.saveSettings();
+                }));
+        
+        new Setting(containerEl)
+            .setName('Content keyword threshold')
+            .setDesc('How many times a content: keyword has to appear on a page before it is blocked.')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(this.plugin.settings.pageTextThreshold.toString())
+                .onChange(async (value) => {
+                    const threshold = parseInt(value);
+                    if (threshold > this.plugin.settings.pageTextThreshold && this.plugin.settings.nuclearActive) {
+                        new Notice('Cannot raise the content keyword threshold during nuclear mode');
+                        text.setValue(this.plugin.settings.pageTextThreshold.toString());
+                        return;
+                    }
+                    if (threshold > 0) {
+                        this.plugin.settings.pageTextThreshold = threshold;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // Diagnostics
+        new Setting(containerEl).setName('Diagnostics').setHeading();
+        
+        const diagnosisEl = containerEl.createDiv();
+        new Setting(containerEl)
+            .setName('Test a URL')
+            .setDesc('Paste a URL to see how it is normalized, which rules and exceptions match it and whether it would be blocked.')
+            .addText(text => text
+                .setPlaceholder('https://example.com/page')
+                .onChange(value => {
+                    if (value.trim()) {
+                        renderUrlDiagnosis(diagnosisEl, this.plugin.diagnoseUrl(value.trim()));
+                    } else {
+                        diagnosisEl.empty();
+                    }
+                }));
+        
+        // Keep the result below the input
+        containerEl.appendChild(diagnosisEl);
+
+        // Category presets
+        new Setting(containerEl).setName('Category presets').setHeading();
+        
+        containerEl.createEl('p', {
+            text: 'Curated lists you can switch on as a unit. They are matched alongside your own entries and are updated with the plugin.',
+            cls: 'setting-item-description'
+        });
+        
+        for (const preset of BLOCKLIST_PRESETS) {
+            const enabled = preset.id in this.plugin.settings.enabledPresets;
+            new Setting(containerEl)
+                .setName(preset.name)
+                .setDesc(`${preset.description} ${preset.entries.length} entries, version ${preset.version}.`)
+                .addToggle(toggle => toggle
+                    .setValue(enabled)
+                    .setDisabled(enabled && this.plugin.settings.nuclearActive)
+                    .onChange(async (value) => {
+                        if (!await this.plugin.setPresetEnabled(preset.id, value)) {
+                            toggle.setValue(!value);
+                        }
+                    }));
+        }
+
+        // Add friction settings
+        this.displayFrictionSettings(containerEl);
+
+        // Add focus session settings
+        new Setting(containerEl).setName('Focus session').setHeading();
+        
+        const focusEnd = this.plugin.isFocusSessionActive()
+            ? this.plugin.formatDateForDisplay(new Date(this.plugin.settings.focusSessionEnd))
+            : '';
+        new Setting(containerEl)
+            .setName('Start focus session')
+            .setDesc(focusEnd
+                ? `A focus session is running until ${focusEnd}. You can extend it, but not end it early.`
+                : 'Enforce nuclear mode right now for a chosen length of time.')
+            .addButton(button => button
+                .setButtonText(focusEnd ? 'Extend Session' : 'Start Session')
+                .onClick(() => new FocusSessionModal(this.app, this.plugin).open()));
+
+        // Blocklist note
+        let notePath = this.plugin.settings.blocklistNotePath;
+        new Setting(containerEl)
+            .setName('Blocklist note')
+            .setDesc(this.plugin.settings.blocklistNotePath
+                ? `The blocklist is kept in ${this.plugin.settings.blocklistNotePath}, so it syncs with your vault. Edits to the note take effect as soon as it is saved.`
+                : 'Keep the blocklist in a note in your vault so it syncs across devices. Entries are list items; headings and %% comments are allowed. The note is created if it does not exist.')
+            .addText(text => text
+                .setPlaceholder('Blocklist.md')
+                .setValue(notePath)
+                .onChange(value => {
+                    notePath = value;
+                }))
+            .addButton(button => button
+                .setButtonText('Use Note')
+                .onClick(async () => {
+                    if (!notePath.trim()) {
+                        new Notice('Please enter the path of a note');
+                        return;
+                    }
+                    if (!await this.plugin.setBlocklistNote(notePath)) return;
+                    new Notice(`Blocklist is now kept in ${this.plugin.settings.blocklistNotePath}`);
+                    this.display();
+                }));
+        
+        if (this.plugin.settings.blocklistNotePath) {
+            new Setting(containerEl)
+                .setName('Stop using blocklist note')
+                .setDesc('Move the blocklist back to the plugin\'s data folder. The note is left in your vault.')
+                .addButton(button => button
+                    .setButtonText('Stop Using Note')
+                    .onClick(async () => {
+                        await this.plugin.setBlocklistNote('');
+                        new Notice('Blocklist is now kept in the plugin data folder');
+                        this.display();
+                    }));
+        }
+        
+        new Setting(containerEl)
+            .setName('Import blocklist')
+            .setDesc('Add entries from a hosts file, Adblock/uBlock filter list or plain domain list in your vault.')
+            .addButton(button => button
+                .setButtonText('Import from File')
+                .onClick(() => new ImportFileSuggestModal(this.app, this.plugin).open()));
+
+        // Add time budget settings
+        this.displayTimeBudgets(containerEl);
+
+        // Add snooze settings
+        this.displaySnoozeSettings(containerEl);
+
+        // Add statistics settings
+        new Setting(containerEl).setName('Statistics').setHeading();
+        
+        new Setting(containerEl)
+            .setName('Record blocked pages')
+            .setDesc('Keep a local log of every blocked page (time, URL, matched rule, nuclear mode and action) in the plugin data folder.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.logBlockEvents)
+                .onChange(async (value) => {
+                    this.plugin.settings.logBlockEvents = value;
+                    await this.plugin.saveSettings();
+                }));
+        
+        new Setting(containerEl)
+            .setName('Keep log entries for')
+            .setDesc('Days to keep log entries before they are pruned. Use 0 to keep them forever.')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '0';
+                text.inputEl.style.width = '80px';
+                text.setValue(this.plugin.settings.logRetentionDays.toString())
+                    .onChange(async (value) => {
+                        const days = Number(value);
+                        if (value.trim() !== '' && Number.isInteger(days) && days >= 0) {
+                            this.plugin.settings.logRetentionDays = days;
+                            text.inputEl.style.borderColor = '';
+                            await this.plugin.saveSettings();
+                        } else {
+                            text.inputEl.style.borderColor = 'red';
+                        }
+                    });
+            })
+            .addButton(button => button
+                .setButtonText('Prune Now')
+                .onClick(async () => {
+                    const removed = await this.plugin.pruneBlockLog();
+                    new Notice(`Removed ${removed} old log entries`);
+                }));
+        
+        new Setting(containerEl)
+            .setName('Blocking statistics')
+            .setDesc('Open the dashboard, or export the log to your vault.')
+            .addButton(button => button
+                .setButtonText('Open Dashboard')
+                .onClick(() => this.plugin.openStatsView()))
+            .addButton(button => button
+                .setButtonText('Export CSV')
+                .onClick(async () => {
+                    const exportPath = await this.plugin.exportBlockLog('csv');
+                    new Notice(`Block log exported to ${exportPath}`);
+                }))
+            .addButton(button => button
+                .setButtonText('Export JSON')
+                .onClick(async () => {
+                    const exportPath = await this.plugin.exportBlockLog('json');
+                    new Notice(`Block log exported to ${exportPath}`);
+                }));
+
         // Add nuclear mode settings
         new Setting(containerEl).setName('Nuclear mode').setHeading();
 
         const nuclearToggleContainer = new Setting(containerEl)
             .setName('Enable nuclear mode')
-            .setDesc('Set daily time periods when blocking cannot be disabled and blocklist cannot be modified.')
+            .setDesc('Set weekly time periods when blocking cannot be disabled and blocklist cannot be modified.')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.nuclearModeEnabled)
                 .onChange(async (value) => {
@@ -636,138 +4433,584 @@ class WebViewerUrlCheckerSettingTab extends PluginSettingTab {
         }
 
         if (this.plugin.settings.nuclearModeEnabled) {
-            // Add time pickers for daily schedule
-            const startTimeContainer = new Setting(containerEl)
-                .setName('Nuclear mode start time')
-                .setDesc('Daily time when nuclear mode begins.')
-                .addText(text => {
-                    text
-                        .setPlaceholder('HH:MM (e.g., 22:00)')
-                        .setValue(this.plugin.settings.nuclearStartTime || '')
-                        .onChange(async (value) => {
-                            // Validate time format
-                            if (this.plugin.isValidTimeFormat(value)) {
-                                this.plugin.settings.nuclearStartTime = value;
-                                text.inputEl.style.borderColor = '';
-                                await this.plugin.saveSettings();
-                            } else if (value.trim() !== '') {
-                                text.inputEl.style.borderColor = 'red';
-                            }
-                        });
-                        
-                    // Add a tooltip
-                    text.inputEl.setAttribute('title', 'Enter time in 24-hour format: HH:MM');
-                    text.inputEl.style.width = '100px';
-                    
-                    // Disable if nuclear mode is active
-                    if (this.plugin.settings.nuclearActive) {
-                        text.inputEl.disabled = true;
-                        text.inputEl.style.opacity = '0.5';
-                    }
+            // Add the weekly schedule editor
+            this.displayScheduleEditor(containerEl);
+            
+            // Only show activate button if not currently in nuclear mode
+            if (!this.plugin.settings.nuclearActive) {
+                // Add activate button
+                new Setting(containerEl)
+                    .setName('Activate nuclear schedule')
+                    .setDesc('Activate the weekly nuclear mode schedule.')
+                    .addButton(button => button
+                        .setButtonText('Activate Schedule')
+                        .setCta()
+                        .onClick(() => {
+                            // Show confirmation dialog
+                            this.showNuclearConfirmation();
+                        }));
+            }
+        }
+    }
+    
+    // Table of blocklist rules with filtering, sorting, per-rule toggles, notes and bulk actions
+    private displayRuleTable(containerEl: HTMLElement) {
+        const rows = this.plugin.getBlocklistRows();
+        const entries = rows.map(row => row.entry);
+        this.selectedEntries = new Set([...this.selectedEntries].filter(entry => entries.includes(entry)));
+        
+        const editorEl = containerEl.createDiv({ cls: 'web-blocker-rule-editor' });
+        
+        // Add a new entry
+        let newEntry = '';
+        new Setting(editorEl)
+            .setName('Add rule')
+            .addText(text => text
+                .setPlaceholder('||example.com')
+                .onChange(value => {
+                    newEntry = value;
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .setCta()
+                .onClick(async () => {
+                    const entries = this.plugin.parseBlocklist(newEntry);
+                    if (entries.length === 0) return;
                     
-                    return text;
-                });
-                
-            startTimeContainer.settingEl.setAttribute('data-nuclear-timeinput', 'start');
+                    const added = await this.plugin.addBlocklistEntries(entries);
+                    new Notice(added > 0 ? `Added ${added} ${added === 1 ? 'entry' : 'entries'} to the blocklist` : 'Nothing new to add');
+                    this.display();
+                }));
+        
+        // Filtering and sorting
+        const toolbar = editorEl.createDiv({ cls: 'web-blocker-rule-toolbar' });
+        const filterInput = toolbar.createEl('input', { type: 'search', placeholder: 'Filter rules and notes' });
+        filterInput.value = this.ruleFilter;
+        
+        const viewSelect = toolbar.createEl('select', { cls: 'dropdown' });
+        for (const [value, label] of [['all', 'All rules'], ['enabled', 'On'], ['disabled', 'Off'], ['warnings', 'With warnings']]) {
+            viewSelect.createEl('option', { value, text: label });
+        }
+        viewSelect.value = this.ruleView;
+        
+        const sortSelect = toolbar.createEl('select', { cls: 'dropdown' });
+        for (const [value, label] of [['order', 'Blocklist order'], ['rule', 'Sort by rule'], ['type', 'Sort by type']]) {
+            sortSelect.createEl('option', { value, text: label });
+        }
+        sortSelect.value = this.ruleSort;
+        
+        // Bulk actions on the selected rows
+        const bulkBar = editorEl.createDiv({ cls: 'web-blocker-rule-toolbar' });
+        const selectionEl = bulkBar.createSpan({ cls: 'setting-item-description' });
+        const bulkAction = (label: string, action: (entries: string[]) => Promise<boolean>) => {
+            const button = bulkBar.createEl('button', { text: label });
+            button.addEventListener('click', async () => {
+                const selected = [...this.selectedEntries];
+                if (selected.length > 0 && await action(selected)) {
+                    this.selectedEntries.clear();
+                    this.display();
+                }
+            });
+            return button;
+        };
+        const bulkButtons = [
+            bulkAction('Turn on', entries => this.plugin.setEntriesEnabled(entries, true)),
+            bulkAction('Turn off', entries => this.plugin.setEntriesEnabled(entries, false)),
+            bulkAction('Delete', entries => this.plugin.removeBlocklistEntries(entries))
+        ];
+        
+        const table = editorEl.createEl('table', { cls: 'web-blocker-rule-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        const selectAll = headerRow.createEl('th').createEl('input', { type: 'checkbox' });
+        for (const heading of ['Rule', 'Type', 'On', 'Note', '']) {
+            headerRow.createEl('th', { text: heading });
+        }
+        const body = table.createEl('tbody');
+        
+        let visibleRows: BlocklistRow[] = [];
+        
+        const updateSelection = () => {
+            const count = this.selectedEntries.size;
+            selectionEl.setText(count > 0 ? `${count} selected` : `${rows.length} rules`);
+            bulkButtons.forEach(button => button.disabled = count === 0);
+            selectAll.checked = visibleRows.length > 0 && visibleRows.every(row => this.selectedEntries.has(row.entry));
+        };
+        
+        const renderRows = () => {
+            const filter = this.ruleFilter.trim().toLowerCase();
+            const notes = this.plugin.settings.entryNotes;
             
-            // Add helper text
-            const startTimeHelperEl = containerEl.createEl('div', {
-                text: '24-hour format (00:00 - 23:59)',
-                cls: 'setting-item-description'
+            visibleRows = rows.filter(row => {
+                if (this.ruleView === 'enabled' && !row.enabled) return false;
+                if (this.ruleView === 'disabled' && row.enabled) return false;
+                if (this.ruleView === 'warnings' && row.warnings.length === 0) return false;
+                return !filter || row.entry.toLowerCase().includes(filter) ||
+                    (notes[row.entry] || '').toLowerCase().includes(filter) ||
+                    describeRuleType(row.rule).toLowerCase().includes(filter);
             });
-            startTimeHelperEl.style.marginTop = '-12px';
-            startTimeHelperEl.style.marginBottom = '12px';
-            startTimeHelperEl.style.color = 'var(--text-muted)';
-                
-            const endTimeContainer = new Setting(containerEl)
-                .setName('Nuclear mode end time')
-                .setDesc('Daily time when nuclear mode ends.')
+            
+            if (this.ruleSort === 'rule') {
+                visibleRows.sort((a, b) => a.entry.localeCompare(b.entry));
+            } else if (this.ruleSort === 'type') {
+                visibleRows.sort((a, b) => describeRuleType(a.rule).localeCompare(describeRuleType(b.rule)) ||
+                    a.entry.localeCompare(b.entry));
+            }
+            
+            body.empty();
+            for (const row of visibleRows) {
+                this.displayRuleRow(body, row, updateSelection);
+            }
+            if (visibleRows.length === 0) {
+                body.createEl('tr').createEl('td', {
+                    text: rows.length === 0 ? 'The blocklist is empty' : 'No rules match the filter',
+                    cls: 'setting-item-description',
+                    attr: { colspan: '6' }
+                });
+            }
+            updateSelection();
+        };
+        
+        filterInput.addEventListener('input', () => {
+            this.ruleFilter = filterInput.value;
+            renderRows();
+        });
+        viewSelect.addEventListener('change', () => {
+            this.ruleView = viewSelect.value as typeof this.ruleView;
+            renderRows();
+        });
+        sortSelect.addEventListener('change', () => {
+            this.ruleSort = sortSelect.value as typeof this.ruleSort;
+            renderRows();
+        });
+        selectAll.addEventListener('change', () => {
+            for (const row of visibleRows) {
+                if (selectAll.checked) {
+                    this.selectedEntries.add(row.entry);
+                } else {
+                    this.selectedEntries.delete(row.entry);
+                }
+            }
+            renderRows();
+        });
+        
+        renderRows();
+    }
+    
+    // A single row of the rule table
+    private displayRuleRow(body: HTMLElement, row: BlocklistRow, onSelect: () => void) {
+        const locked = this.plugin.isEntryLocked(row.entry, row.enabled);
+        const tr = body.createEl('tr', { cls: row.enabled ? '' : 'web-blocker-rule-off' });
+        
+        const select = tr.createEl('td').createEl('input', { type: 'checkbox' });
+        select.checked = this.selectedEntries.has(row.entry);
+        select.addEventListener('change', () => {
+            if (select.checked) {
+                this.selectedEntries.add(row.entry);
+            } else {
+                this.selectedEntries.delete(row.entry);
+            }
+            onSelect();
+        });
+        
+        const ruleCell = tr.createEl('td');
+        ruleCell.createEl('code', { text: row.entry });
+        for (const warning of row.warnings) {
+            ruleCell.createDiv({ text: warning, cls: 'web-blocker-rule-warning' });
+        }
+        
+        tr.createEl('td', { text: describeRuleType(row.rule) });
+        
+        const toggleCell = tr.createEl('td');
+        if (locked) {
+            // Nuclear mode protects this row, so show why it can't be changed
+            setIcon(toggleCell, 'lock');
+            toggleCell.setAttr('aria-label', 'Locked during nuclear mode');
+            toggleCell.addClass('web-blocker-rule-locked');
+        } else {
+            const toggle = toggleCell.createEl('input', { type: 'checkbox' });
+            toggle.checked = row.enabled;
+            toggle.addEventListener('change', async () => {
+                if (!await this.plugin.setEntriesEnabled([row.entry], toggle.checked)) {
+                    toggle.checked = row.enabled;
+                    return;
+                }
+                this.display();
+            });
+        }
+        
+        const noteInput = tr.createEl('td').createEl('input', { type: 'text', placeholder: 'Add a note' });
+        noteInput.value = this.plugin.settings.entryNotes[row.entry] || '';
+        noteInput.addEventListener('change', () => this.plugin.setEntryNote(row.entry, noteInput.value));
+        
+        const deleteCell = tr.createEl('td');
+        if (!locked || !row.enabled) {
+            const deleteButton = deleteCell.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Delete' } });
+            setIcon(deleteButton, 'trash');
+            deleteButton.addEventListener('click', async () => {
+                if (await this.plugin.removeBlocklistEntries([row.entry])) {
+                    this.display();
+                }
+            });
+        }
+    }
+    
+    // Snooze pass settings and the passes that are currently active
+    private displaySnoozeSettings(containerEl: HTMLElement) {
+        new Setting(containerEl).setName('Snooze passes').setHeading();
+        
+        const used = this.plugin.getSnoozePassesUsed();
+        containerEl.createEl('p', {
+            text: `Allow a blocked domain for a few minutes from the block screen or notice. Passes are never available during nuclear mode. ${used} of ${this.plugin.settings.snoozeDailyLimit} used today.`,
+            cls: 'setting-item-description'
+        });
+        
+        new Setting(containerEl)
+            .setName('Pass length')
+            .setDesc('Minutes a snooze pass allows the domain for.')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(this.plugin.settings.snoozeMinutes.toString())
+                .onChange(async (value) => {
+                    const minutes = parseInt(value);
+                    if (minutes > 0) {
+                        this.plugin.settings.snoozeMinutes = minutes;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+        
+        new Setting(containerEl)
+            .setName('Passes per day')
+            .setDesc('Set to 0 to turn snoozing off. The count resets with the time budgets.')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(this.plugin.settings.snoozeDailyLimit.toString())
+                .onChange(async (value) => {
+                    const limit = parseInt(value);
+                    if (limit >= 0) {
+                        this.plugin.settings.snoozeDailyLimit = limit;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+        
+        for (const pass of this.plugin.getActiveSnoozePasses()) {
+            new Setting(containerEl)
+                .setName(pass.domain)
+                .setDesc(`Allowed until ${this.plugin.formatDateForDisplay(new Date(pass.until))}`)
+                .addButton(button => button
+                    .setButtonText('Revoke')
+                    .onClick(async () => {
+                        await this.plugin.revokeSnoozePass(pass.domain);
+                        this.display();
+                    }));
+        }
+    }
+    
+    // Friction checks for turning blocking off or removing entries outside nuclear mode
+    private displayFrictionSettings(containerEl: HTMLElement) {
+        new Setting(containerEl).setName('Unlock friction').setHeading();
+        
+        containerEl.createEl('p', {
+            text: 'Outside nuclear mode, make turning blocking off or removing entries take some effort. Lowering these settings goes through the same checks.',
+            cls: 'setting-item-description'
+        });
+        
+        // Apply a change, going through the current checks first if it lowers the friction
+        const update = async (loosens: boolean, apply: () => void) => {
+            if (loosens && !await this.plugin.requestUnlock('Reduce unlock friction')) {
+                this.display();
+                return;
+            }
+            apply();
+            await this.plugin.saveSettings();
+        };
+        
+        new Setting(containerEl)
+            .setName('Countdown')
+            .setDesc('Wait this long before you can continue.')
+            .addDropdown(dropdown => dropdown
+                .addOption('0', 'Off')
+                .addOption('10', '10 seconds')
+                .addOption('30', '30 seconds')
+                .addOption('60', '1 minute')
+                .addOption('120', '2 minutes')
+                .addOption('300', '5 minutes')
+                .setValue(this.plugin.settings.frictionCountdownSeconds.toString())
+                .onChange(async (value) => {
+                    const seconds = Number(value);
+                    await update(seconds < this.plugin.settings.frictionCountdownSeconds, () => {
+                        this.plugin.settings.frictionCountdownSeconds = seconds;
+                    });
+                }));
+        
+        new Setting(containerEl)
+            .setName('Typing challenge')
+            .setDesc('Type a random passage exactly. Pasting is not allowed.')
+            .addDropdown(dropdown => dropdown
+                .addOption('0', 'Off')
+                .addOption('25', '25 words')
+                .addOption('50', '50 words')
+                .addOption('100', '100 words')
+                .setValue(this.plugin.settings.frictionTypingWords.toString())
+                .onChange(async (value) => {
+                    const words = Number(value);
+                    await update(words < this.plugin.settings.frictionTypingWords, () => {
+                        this.plugin.settings.frictionTypingWords = words;
+                    });
+                }));
+        
+        new Setting(containerEl)
+            .setName('Require a reason')
+            .setDesc('Write down why. Reasons are saved to data/audit-log.jsonl so you can review them later.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.frictionRequireReason)
+                .onChange(async (value) => {
+                    await update(!value, () => {
+                        this.plugin.settings.frictionRequireReason = value;
+                    });
+                }));
+        
+        // Recent reasons for review
+        const reasonsEl = containerEl.createDiv();
+        this.plugin.readAuditLog().then(entries => {
+            const unlocks = entries.filter(entry => entry.type === 'unlock').slice(-5).reverse();
+            if (unlocks.length === 0) return;
+            
+            reasonsEl.createEl('p', { text: 'Recent unlocks', cls: 'setting-item-description' });
+            const list = reasonsEl.createEl('ul', { cls: 'setting-item-description' });
+            for (const entry of unlocks) {
+                list.createEl('li', { text: `${new Date(entry.timestamp).toLocaleString()}: ${entry.detail}` });
+            }
+        });
+    }
+    
+    // Daily time budgets, with a row for adding a new one
+    private displayTimeBudgets(containerEl: HTMLElement) {
+        new Setting(containerEl).setName('Time budgets').setHeading();
+        
+        containerEl.createEl('p', {
+            text: 'Allow pages matching a rule for a limited time each day; they are blocked once the time is used up. Rules use the blocklist syntax. During nuclear mode, budgets can be lowered but not raised or removed.',
+            cls: 'setting-item-description'
+        });
+        
+        for (const budget of this.plugin.settings.timeBudgets) {
+            const remaining = formatDuration(this.plugin.getBudgetRemaining(budget));
+            new Setting(containerEl)
+                .setName(budget.pattern)
+                .setDesc(`${remaining} left today`)
                 .addText(text => {
-                    text
-                        .setPlaceholder('HH:MM (e.g., 05:00)')
-                        .setValue(this.plugin.settings.nuclearEndTime || '')
+                    text.inputEl.type = 'number';
+                    text.inputEl.min = '1';
+                    text.inputEl.style.width = '80px';
+                    text.setValue(budget.minutes.toString())
                         .onChange(async (value) => {
-                            // Validate time format
-                            if (this.plugin.isValidTimeFormat(value)) {
-                                this.plugin.settings.nuclearEndTime = value;
+                            if (await this.plugin.setTimeBudgetMinutes(budget, Number(value))) {
                                 text.inputEl.style.borderColor = '';
-                                await this.plugin.saveSettings();
-                            } else if (value.trim() !== '') {
+                            } else {
                                 text.inputEl.style.borderColor = 'red';
                             }
                         });
-                        
-                    // Add a tooltip
-                    text.inputEl.setAttribute('title', 'Enter time in 24-hour format: HH:MM');
-                    text.inputEl.style.width = '100px';
-                    
-                    // Disable if nuclear mode is active
+                    text.inputEl.addEventListener('blur', () => {
+                        // Show the saved value again if the edit was refused
+                        text.setValue(budget.minutes.toString());
+                        text.inputEl.style.borderColor = '';
+                    });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove budget')
+                    .setDisabled(this.plugin.settings.nuclearActive)
+                    .onClick(async () => {
+                        if (await this.plugin.removeTimeBudget(budget)) {
+                            this.display();
+                        }
+                    }));
+        }
+        
+        // New budget
+        let newPattern = '';
+        let newMinutes = 20;
+        new Setting(containerEl)
+            .setName('Add budget')
+            .setDesc('Rule and minutes per day')
+            .addText(text => text
+                .setPlaceholder('||youtube.com')
+                .onChange(value => {
+                    newPattern = value;
+                }))
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '1';
+                text.inputEl.style.width = '80px';
+                text.setValue(newMinutes.toString())
+                    .onChange(value => {
+                        newMinutes = Number(value);
+                    });
+            })
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (await this.plugin.addTimeBudget(newPattern, newMinutes)) {
+                        this.display();
+                    }
+                }));
+        
+        new Setting(containerEl)
+            .setName('Budget reset time')
+            .setDesc('Time of day when budgets start over, in 24-hour format.')
+            .addText(text => text
+                .setPlaceholder('HH:MM (e.g., 04:00)')
+                .setValue(this.plugin.settings.budgetResetTime)
+                .setDisabled(this.plugin.settings.nuclearActive)
+                .onChange(async (value) => {
+                    // Moving the reset time starts a new period, which would refill every budget
                     if (this.plugin.settings.nuclearActive) {
-                        text.inputEl.disabled = true;
-                        text.inputEl.style.opacity = '0.5';
+                        new Notice('Cannot change the budget reset time during nuclear mode');
+                        text.setValue(this.plugin.settings.budgetResetTime);
+                        return;
                     }
                     
-                    return text;
+                    // Validate time format
+                    if (this.plugin.isValidTimeFormat(value)) {
+                        this.plugin.settings.budgetResetTime = value;
+                        text.inputEl.style.borderColor = '';
+                        await this.plugin.saveSettings();
+                    } else if (value.trim() !== '') {
+                        text.inputEl.style.borderColor = 'red';
+                    }
+                }));
+    }
+    
+    // Weekly grid of nuclear windows with a preview of the next activation
+    private displayScheduleEditor(containerEl: HTMLElement) {
+        const schedule = this.plugin.settings.nuclearSchedule;
+        const locked = this.plugin.settings.nuclearActive;
+        
+        containerEl.createEl('p', {
+            text: 'Choose the days each window starts on. Times use the 24-hour format (00:00 - 23:59); an end time earlier than the start time blocks overnight into the next day.',
+            cls: 'setting-item-description'
+        });
+        
+        const grid = containerEl.createDiv({ cls: 'web-blocker-schedule' });
+        grid.setAttribute('data-nuclear-timeinput', 'schedule');
+        if (locked) {
+            grid.style.opacity = '0.5';
+            grid.style.pointerEvents = 'none';
+        }
+        
+        // Header row
+        const header = grid.createDiv({ cls: 'web-blocker-schedule-row web-blocker-schedule-header' });
+        DAY_NAMES.forEach(name => header.createSpan({ text: name.charAt(0), attr: { title: name } }));
+        header.createSpan({ text: 'Start' });
+        header.createSpan({ text: 'End' });
+        header.createSpan();
+        
+        schedule.forEach((entry, index) => {
+            const row = grid.createDiv({ cls: 'web-blocker-schedule-row' });
+            
+            // One checkbox per weekday
+            DAY_NAMES.forEach((name, day) => {
+                const checkbox = row.createEl('input', { type: 'checkbox', attr: { title: name } });
+                checkbox.checked = !!(entry.days & (1 << day));
+                checkbox.disabled = locked;
+                checkbox.addEventListener('change', async () => {
+                    entry.days = checkbox.checked ? entry.days | (1 << day) : entry.days & ~(1 << day);
+                    await this.plugin.saveSettings();
+                    this.updateSchedulePreview();
                 });
-                
-            endTimeContainer.settingEl.setAttribute('data-nuclear-timeinput', 'end');
-
-            // Add helper text
-            const endTimeHelperEl = containerEl.createEl('div', {
-                text: '24-hour format (00:00 - 23:59). Can be earlier than start time to block overnight.',
-                cls: 'setting-item-description'
             });
-            endTimeHelperEl.style.marginTop = '-12px';
-            endTimeHelperEl.style.marginBottom = '12px';
-            endTimeHelperEl.style.color = 'var(--text-muted)';
             
-            // Only show activate button if not currently in nuclear mode
-            if (!this.plugin.settings.nuclearActive) {
-                // Add activate button
-                new Setting(containerEl)
-                    .setName('Activate nuclear schedule')
-                    .setDesc('Activate the daily nuclear mode schedule.')
-                    .addButton(button => button
-                        .setButtonText('Activate Schedule')
-                        .setCta()
-                        .onClick(() => {
-                            // Show confirmation dialog
-                            this.showNuclearConfirmation();
-                        }));
+            // Start and end times
+            for (const field of ['start', 'end'] as const) {
+                const input = row.createEl('input', { type: 'text', value: entry[field] });
+                input.placeholder = 'HH:MM';
+                input.setAttribute('title', 'Enter time in 24-hour format: HH:MM');
+                input.disabled = locked;
+                input.addEventListener('input', async () => {
+                    if (this.plugin.isValidTimeFormat(input.value)) {
+                        entry[field] = input.value;
+                        input.style.borderColor = '';
+                        await this.plugin.saveSettings();
+                        this.updateSchedulePreview();
+                    } else if (input.value.trim() !== '') {
+                        input.style.borderColor = 'red';
+                    }
+                });
             }
+            
+            // Remove this window
+            const removeButton = row.createEl('button', { text: '✕', attr: { title: 'Remove window' } });
+            removeButton.disabled = locked || schedule.length === 1;
+            removeButton.addEventListener('click', async () => {
+                schedule.splice(index, 1);
+                await this.plugin.saveSettings();
+                this.display();
+            });
+        });
+        
+        if (!locked) {
+            new Setting(containerEl)
+                .setName('Add window')
+                .setDesc('Add another nuclear mode window, e.g. deep-work mornings on weekdays.')
+                .addButton(button => button
+                    .setButtonText('Add window')
+                    .onClick(async () => {
+                        schedule.push({ days: WEEKDAYS, start: '09:00', end: '12:00' });
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
         }
+        
+        // Preview of the next activation and release
+        this.schedulePreviewEl = containerEl.createEl('p', { cls: 'setting-item-description' });
+        this.updateSchedulePreview();
+    }
+    
+    // Refresh the next activation and release preview
+    private updateSchedulePreview() {
+        if (!this.schedulePreviewEl) return;
+        
+        if (!this.plugin.isValidSchedule(this.plugin.settings.nuclearSchedule)) {
+            this.schedulePreviewEl.setText('Every window needs at least one day and valid times.');
+            return;
+        }
+        
+        const activeEnd = this.plugin.settings.nuclearActive ? this.plugin.getNuclearEndTime() : null;
+        const next = this.plugin.getNextNuclearWindow();
+        const parts: string[] = [];
+        
+        if (activeEnd) {
+            parts.push(`Active now, released ${this.plugin.formatDateForDisplay(activeEnd)}.`);
+        }
+        if (next) {
+            parts.push(`Next activation ${this.plugin.formatDateForDisplay(next.start)}, released ${this.plugin.formatDateForDisplay(next.end)}.`);
+        }
+        
+        this.schedulePreviewEl.setText(parts.join(' ') || 'No upcoming windows.');
     }
     
     // Show confirmation dialog before activating nuclear mode
     private showNuclearConfirmation() {
-        if (!this.plugin.isValidTimeFormat(this.plugin.settings.nuclearStartTime) || 
-            !this.plugin.isValidTimeFormat(this.plugin.settings.nuclearEndTime)) {
-            new Notice('Please enter valid start and end times in HH:MM format');
+        if (!this.plugin.isValidSchedule(this.plugin.settings.nuclearSchedule)) {
+            new Notice('Please give every schedule window at least one day and valid start and end times in HH:MM format');
             return;
         }
         
-        // Format times for display
-        const startTime = this.plugin.formatTimeForDisplay(this.plugin.settings.nuclearStartTime);
-        const endTime = this.plugin.formatTimeForDisplay(this.plugin.settings.nuclearEndTime);
-        
         // Create modal
         const modal = new Modal(this.app);
         modal.titleEl.setText('Confirm Nuclear Mode Schedule');
         
         const content = modal.contentEl.createDiv();
         
-        // Determine if schedule spans across midnight
-        const [startHour, startMinute] = this.plugin.settings.nuclearStartTime.split(':').map(Number);
-        const [endHour, endMinute] = this.plugin.settings.nuclearEndTime.split(':').map(Number);
-        const startTimeInMinutes = startHour * 60 + startMinute;
-        const endTimeInMinutes = endHour * 60 + endMinute;
-        
-        let scheduleText = '';
-        if (startTimeInMinutes < endTimeInMinutes) {
-            scheduleText = `Web blocking will be active daily from ${startTime} to ${endTime}`;
-        } else {
-            scheduleText = `Web blocking will be active daily from ${startTime} until ${endTime} the next morning`;
-        }
+        // Describe each window, noting those that span across midnight
+        const windowTexts = this.plugin.settings.nuclearSchedule.map(entry => {
+            const startTime = this.plugin.formatTimeForDisplay(entry.start);
+            const endTime = this.plugin.formatTimeForDisplay(entry.end);
+            const [startHour, startMinute] = entry.start.split(':').map(Number);
+            const [endHour, endMinute] = entry.end.split(':').map(Number);
+            const overnight = endHour * 60 + endMinute <= startHour * 60 + startMinute;
+            return `${describeDays(entry.days)} from ${startTime} ${overnight ? 'until' : 'to'} ${endTime}${overnight ? ' the next morning' : ''}`;
+        });
+        const scheduleText = `Web blocking will be active ${windowTexts.join('; ')}`;
         
         content.createEl('p', {
             text: `${scheduleText}. During these hours, you won't be able to disable blocking or remove items from the blocklist. Are you sure you want to proceed?`